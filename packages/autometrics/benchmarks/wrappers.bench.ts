@@ -0,0 +1,93 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { bench, describe } from "vitest";
+
+import { setInstrumentationEnabled } from "../src/controls";
+import { registerExporter } from "../src/instrumentation";
+import { ObjectivePercentile } from "../src/objectives";
+import { autometrics } from "../src/wrappers";
+
+// Measures the overhead autometrics adds to every call, by comparing
+// instrumented functions against their plain counterparts.
+//
+// Run with `yarn bench`.
+
+registerExporter({
+  metricReader: new PeriodicExportingMetricReader({
+    exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+  }),
+});
+
+function add(a: number, b: number) {
+  return a + b;
+}
+
+async function addAsync(a: number, b: number) {
+  return a + b;
+}
+
+const instrumentedAdd = autometrics(add);
+const instrumentedAddAsync = autometrics(addAsync);
+const instrumentedAddWithOptions = autometrics(
+  {
+    functionName: "addWithOptions",
+    trackConcurrency: true,
+    objective: { name: "bench", successRate: ObjectivePercentile.P99 },
+  },
+  add,
+);
+const instrumentedAddWithLabels = autometrics(
+  {
+    functionName: "addWithLabels",
+    labels: (a: number) => ({ even: a % 2 === 0 }),
+  },
+  add,
+);
+const instrumentedAddSampled = autometrics(
+  { functionName: "addSampled", sampleRate: 0.01 },
+  add,
+);
+const instrumentedAddDisabled = autometrics(
+  { functionName: "addDisabled" },
+  add,
+);
+setInstrumentationEnabled({ function: "addDisabled" }, false);
+
+describe("sync function", () => {
+  bench("plain", () => {
+    add(1, 2);
+  });
+
+  bench("instrumented", () => {
+    instrumentedAdd(1, 2);
+  });
+
+  bench("instrumented with concurrency and objective", () => {
+    instrumentedAddWithOptions(1, 2);
+  });
+
+  bench("instrumented with custom labels", () => {
+    instrumentedAddWithLabels(1, 2);
+  });
+
+  bench("instrumented with a sample rate of 1%", () => {
+    instrumentedAddSampled(1, 2);
+  });
+
+  bench("instrumented, but disabled", () => {
+    instrumentedAddDisabled(1, 2);
+  });
+});
+
+describe("async function", () => {
+  bench("plain", async () => {
+    await addAsync(1, 2);
+  });
+
+  bench("instrumented", async () => {
+    await instrumentedAddAsync(1, 2);
+  });
+});
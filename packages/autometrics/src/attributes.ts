@@ -0,0 +1,143 @@
+import type { Attributes } from "@opentelemetry/api";
+
+import type { AutometricsContext } from "./context";
+import { getSettings } from "./settings";
+
+/**
+ * The attributes of the metrics that are recorded for calls to a single
+ * function, from a single caller and with a single set of custom labels.
+ *
+ * @internal
+ */
+export type CallAttributes = {
+  /**
+   * Returns the attributes for the `function.calls` counter.
+   */
+  counter(result: string, errorKind: string): Attributes;
+
+  /**
+   * The attributes for the `function.calls.duration` histogram.
+   */
+  histogram: Attributes;
+
+  /**
+   * The attributes for the `function.calls.time_to_first_chunk` histogram.
+   */
+  firstChunk: Attributes;
+};
+
+/**
+ * Key under which the attributes of calls without a caller are cached.
+ */
+const NO_CONTEXT = {};
+
+/**
+ * Returns a function that looks up the attributes of a call to a function.
+ *
+ * Attribute objects are created once for every combination of caller and
+ * custom label set, and are then reused for all calls with that combination.
+ * This relies on contexts and label sets being reused as well, which is the
+ * case for the contexts created by `autometrics()` and the label sets returned
+ * by `createLabelResolver()`.
+ *
+ * @internal
+ */
+export function createCallAttributesResolver(
+  functionAttributes: Attributes,
+  counterObjectiveAttributes: Attributes,
+  histogramObjectiveAttributes: Attributes,
+): (
+  context: AutometricsContext | undefined,
+  customLabels: Attributes,
+) => CallAttributes {
+  // Contexts (or `NO_CONTEXT`) to label sets to call attributes, separately for
+  // each value of the `legacyCallerLabel` setting.
+  const caches = {
+    default: new WeakMap<object, WeakMap<Attributes, CallAttributes>>(),
+    legacy: new WeakMap<object, WeakMap<Attributes, CallAttributes>>(),
+  };
+
+  return (context, customLabels) => {
+    const cache = getSettings().legacyCallerLabel
+      ? caches.legacy
+      : caches.default;
+
+    const contextKey = context ?? NO_CONTEXT;
+    let cacheForContext = cache.get(contextKey);
+    if (!cacheForContext) {
+      cacheForContext = new WeakMap();
+      cache.set(contextKey, cacheForContext);
+    }
+
+    let callAttributes = cacheForContext.get(customLabels);
+    if (!callAttributes) {
+      callAttributes = createCallAttributes(
+        functionAttributes,
+        getCallerAttributes(context),
+        counterObjectiveAttributes,
+        histogramObjectiveAttributes,
+        customLabels,
+      );
+      cacheForContext.set(customLabels, callAttributes);
+    }
+
+    return callAttributes;
+  };
+}
+
+function createCallAttributes(
+  functionAttributes: Attributes,
+  callerAttributes: Attributes,
+  counterObjectiveAttributes: Attributes,
+  histogramObjectiveAttributes: Attributes,
+  customLabels: Attributes,
+): CallAttributes {
+  const counterAttributes = new Map<string, Attributes>();
+  const getCounterAttributes = (result: string, errorKind: string) => {
+    const key = `${result}:${errorKind}`;
+    let attributes = counterAttributes.get(key);
+    if (!attributes) {
+      attributes = {
+        ...functionAttributes,
+        result,
+        error_kind: errorKind,
+        ...callerAttributes,
+        ...counterObjectiveAttributes,
+        ...customLabels,
+      };
+      counterAttributes.set(key, attributes);
+    }
+
+    return attributes;
+  };
+
+  return {
+    counter: getCounterAttributes,
+    histogram: {
+      ...functionAttributes,
+      ...callerAttributes,
+      ...histogramObjectiveAttributes,
+      ...customLabels,
+    },
+    firstChunk: { ...functionAttributes, ...callerAttributes, ...customLabels },
+  };
+}
+
+/**
+ * Returns the caller labels for the given context. The `caller` label is only
+ * included if the `legacyCallerLabel` setting is enabled.
+ */
+function getCallerAttributes(
+  context: AutometricsContext | undefined,
+): Attributes {
+  const attributes: Attributes = {
+    caller_function: context?.callerFunction ?? "",
+    caller_module: context?.callerModule ?? "",
+  };
+
+  if (getSettings().legacyCallerLabel) {
+    attributes.caller = context?.callerFunction ?? "";
+  }
+
+  return attributes;
+}
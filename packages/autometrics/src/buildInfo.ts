@@ -1,14 +1,26 @@
-import type { UpDownCounter } from "@opentelemetry/api";
-
+import type {
+  Attributes,
+  ObservableGauge,
+  ObservableResult,
+} from "@opentelemetry/api";
+
+import {
+  BuildInfoDetector,
+  defaultBuildInfoDetectors,
+  detectBuildInfo,
+} from "./buildInfoDetectors";
 import { BUILD_INFO_DESCRIPTION, BUILD_INFO_NAME } from "./constants";
 import { getMeter } from "./instrumentation";
 import { debug } from "./logger";
-import { Runtime, getRuntime } from "./utils";
+import { getServiceName } from "./resource";
 
 /**
  * BuildInfo is used to create the `build_info` metric that helps to identify
- * the version, commit, and branch of the application of which the metrics are
- * being collected.
+ * the version, commit, branch, and repository of the application of which the
+ * metrics are being collected.
+ *
+ * By default, the build info is detected from environment variables, see
+ * {@link createDefaultBuildInfo}.
  *
  * @group Initialization API
  */
@@ -26,11 +38,24 @@ export type BuildInfo = {
   commit?: string;
 
   /**
-   * The current commit hash of the application. Should be set through an
+   * The branch the application was built from. Should be set through an
    * environment variable: `AUTOMETRICS_BRANCH` or `BRANCH_NAME`.
    */
   branch?: string;
 
+  /**
+   * The URL of the repository of the application. Should be set through an
+   * environment variable: `AUTOMETRICS_REPOSITORY_URL`.
+   */
+  repo_url?: string;
+
+  /**
+   * The provider hosting the repository of the application, such as `github`,
+   * `gitlab` or `bitbucket`. Should be set through an environment variable:
+   * `AUTOMETRICS_REPOSITORY_PROVIDER`, or is derived from the repository URL.
+   */
+  repo_provider?: string;
+
   /**
    * The "clearmode" label of the `build_info` metric.
    * This label is used when pushing to a Gravel Gateway
@@ -39,104 +64,105 @@ export type BuildInfo = {
    * clearmode. See the Gravel Gateways documentation for more details.
    */
   clearmode?: "replace" | "aggregate" | "family" | "";
+
+  /**
+   * Additional labels for the `build_info` metric, such as the deployment slot
+   * or the feature flag ring the application is running in.
+   */
+  customLabels?: Record<string, string>;
 };
 
 /**
  * The build info of the application.
  *
- * Should be set through the `init` function.
+ * Should be set through the `init` function, and can be updated through
+ * {@link updateBuildInfo}.
  *
  * @internal
  */
-const buildInfo: BuildInfo = {};
-
-let buildInfoGauge: UpDownCounter;
+let buildInfo: BuildInfo = {};
 
 /**
- * Records the build info for the application.
- *
- * @internal
+ * The labels of the `build_info` metric, derived from the build info.
  */
-export function recordBuildInfo(info: BuildInfo) {
-  debug("Recording build info");
-
-  buildInfo.version = info.version ?? "";
-  buildInfo.commit = info.commit ?? "";
-  buildInfo.branch = info.branch ?? "";
-  buildInfo.clearmode = info.clearmode ?? "";
+let buildInfoAttributes: Attributes | undefined;
 
-  if (!buildInfoGauge) {
-    buildInfoGauge = getMeter().createUpDownCounter(BUILD_INFO_NAME, {
-      description: BUILD_INFO_DESCRIPTION,
-    });
-  }
-
-  buildInfoGauge.add(1, buildInfo);
-}
+let buildInfoGauge: ObservableGauge | undefined;
 
 /**
- * Creates the default `BuildInfo` based on environment variables.
+ * Reports the current build info. Only a single label set is ever reported,
+ * so label sets from before an update don't linger around.
  */
-export function createDefaultBuildInfo(): BuildInfo {
-  const runtime = getRuntime();
-  return {
-    version: getVersion(runtime),
-    commit: getCommit(runtime),
-    branch: getBranch(runtime),
-  };
+function observeBuildInfo(observableResult: ObservableResult) {
+  if (buildInfoAttributes) {
+    observableResult.observe(1, buildInfoAttributes);
+  }
 }
 
 /**
- * Returns the version of the application, based on environment variables.
+ * Records the build info for the application, replacing any build info that
+ * was recorded before.
  *
  * @internal
  */
-function getVersion(runtime: Runtime): string | undefined {
-  if (runtime === "node") {
-    if (process.env.npm_package_version) {
-      return process.env.npm_package_version;
-    }
-    return process.env.PACKAGE_VERSION || process.env.AUTOMETRICS_VERSION;
-  }
+export function recordBuildInfo(info: BuildInfo) {
+  debug("Recording build info");
+
+  buildInfo = { ...info };
+  buildInfoAttributes = {
+    version: info.version ?? "",
+    commit: info.commit ?? "",
+    branch: info.branch ?? "",
+    repo_url: info.repo_url ?? "",
+    repo_provider: info.repo_provider ?? "",
+    clearmode: info.clearmode ?? "",
+    service_name: getServiceName(),
+    ...info.customLabels,
+  };
 
-  if (runtime === "deno") {
-    return (
-      //@ts-ignore
-      Deno.env.get("AUTOMETRICS_VERSION") || Deno.env.get("PACKAGE_VERSION")
-    );
+  if (!buildInfoGauge) {
+    buildInfoGauge = getMeter().createObservableGauge(BUILD_INFO_NAME, {
+      description: BUILD_INFO_DESCRIPTION,
+    });
+    buildInfoGauge.addCallback(observeBuildInfo);
   }
 }
 
 /**
- * Returns the commit hash of the current build of the application, based on
- * environment variables.
+ * Updates the build info of the application at runtime, for example when the
+ * deployment slot or feature flag ring changes. The given fields are merged
+ * into the current build info, after which the `build_info` metric reports
+ * the updated labels instead of the previous ones.
  *
- * @internal
+ * Note that `customLabels` are replaced as a whole, rather than merged.
+ *
+ * @param changes {BuildInfo} - the fields of the build info to update
+ *
+ * @example
+ *
+ * ```typescript
+ * import { updateBuildInfo } from "@autometrics/autometrics";
+ *
+ * updateBuildInfo({ customLabels: { slot: "green" } });
+ * ```
+ *
+ * @group Initialization API
  */
-function getCommit(runtime: Runtime) {
-  if (runtime === "node") {
-    return process.env.COMMIT_SHA || process.env.AUTOMETRICS_COMMIT;
-  }
-
-  if (runtime === "deno") {
-    //@ts-ignore
-    return Deno.env.get("AUTOMETRICS_COMMIT");
-  }
+export function updateBuildInfo(changes: BuildInfo) {
+  recordBuildInfo({ ...buildInfo, ...changes });
 }
 
 /**
- * Returns the branch of the current build of the application, based on
- * environment variables.
+ * Creates the default `BuildInfo` by running the build info detectors, which
+ * read the environment variables of the Autometrics spec, of CI and hosting
+ * platforms (GitHub Actions, GitLab CI, Vercel, Netlify and Fly.io) and of the
+ * package manager.
  *
- * @internal
+ * @param detectors {ReadonlyArray<BuildInfoDetector>} - the detectors to run,
+ * in order of precedence (default: `defaultBuildInfoDetectors`)
  */
-function getBranch(runtime: Runtime) {
-  if (runtime === "node") {
-    return process.env.BRANCH_NAME || process.env.AUTOMETRICS_BRANCH;
-  }
-
-  if (runtime === "deno") {
-    //@ts-ignore
-    return Deno.env.get("AUTOMETRICS_BRANCH");
-  }
+export function createDefaultBuildInfo(
+  detectors: ReadonlyArray<BuildInfoDetector> = defaultBuildInfoDetectors,
+): BuildInfo {
+  return detectBuildInfo(detectors);
 }
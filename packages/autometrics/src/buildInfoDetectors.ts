@@ -0,0 +1,370 @@
+import type { BuildInfo } from "./buildInfo";
+import { getEnvironmentVariable } from "./utils";
+
+/**
+ * Detects (part of) the build info from the environment the application is
+ * built or running in.
+ *
+ * Detectors receive a function for reading environment variables, and return
+ * the fields they were able to detect.
+ *
+ * @group Initialization API
+ */
+export type BuildInfoDetector = (
+  getEnv: (name: string) => string | undefined,
+) => BuildInfo | undefined;
+
+/**
+ * The fields of the build info that are filled in by detectors.
+ */
+const DETECTED_FIELDS = [
+  "version",
+  "commit",
+  "branch",
+  "repo_url",
+  "repo_provider",
+] as const;
+
+/**
+ * Hosts of the repository providers, as named by Vercel.
+ */
+const REPO_PROVIDER_HOSTS: Record<string, string> = {
+  github: "github.com",
+  gitlab: "gitlab.com",
+  bitbucket: "bitbucket.org",
+};
+
+/**
+ * Name of the global constant through which `createBuildInfoDefine()` bakes
+ * the build info into a bundle.
+ */
+const BUILD_INFO_DEFINE = "__AUTOMETRICS_BUILD_INFO__";
+
+declare const __AUTOMETRICS_BUILD_INFO__: BuildInfo | undefined;
+
+/**
+ * Detects the build info that was baked into the bundle using
+ * {@link createBuildInfoDefine}.
+ *
+ * @group Initialization API
+ */
+export const bakedBuildInfoDetector: BuildInfoDetector = () =>
+  typeof __AUTOMETRICS_BUILD_INFO__ === "object"
+    ? __AUTOMETRICS_BUILD_INFO__
+    : undefined;
+
+/**
+ * Detects the build info from the Autometrics environment variables:
+ * `AUTOMETRICS_VERSION`, `AUTOMETRICS_COMMIT`, `AUTOMETRICS_BRANCH`,
+ * `AUTOMETRICS_REPOSITORY_URL` and `AUTOMETRICS_REPOSITORY_PROVIDER`, as well
+ * as the generic `PACKAGE_VERSION`, `COMMIT_SHA` and `BRANCH_NAME`.
+ *
+ * @group Initialization API
+ */
+export const autometricsEnvDetector: BuildInfoDetector = (getEnv) => {
+  const repoUrl = getEnv("AUTOMETRICS_REPOSITORY_URL");
+
+  return {
+    version: getEnv("AUTOMETRICS_VERSION") || getEnv("PACKAGE_VERSION"),
+    commit: getEnv("AUTOMETRICS_COMMIT") || getEnv("COMMIT_SHA"),
+    branch: getEnv("AUTOMETRICS_BRANCH") || getEnv("BRANCH_NAME"),
+    repo_url: repoUrl,
+    repo_provider:
+      getEnv("AUTOMETRICS_REPOSITORY_PROVIDER") || getRepoProvider(repoUrl),
+  };
+};
+
+/**
+ * Detects the build info in GitHub Actions workflows.
+ *
+ * @group Initialization API
+ */
+export const githubActionsDetector: BuildInfoDetector = (getEnv) => {
+  if (getEnv("GITHUB_ACTIONS") !== "true") {
+    return;
+  }
+
+  const serverUrl = getEnv("GITHUB_SERVER_URL") || "https://github.com";
+  const repository = getEnv("GITHUB_REPOSITORY");
+
+  return {
+    commit: getEnv("GITHUB_SHA"),
+    // `GITHUB_HEAD_REF` is only set for pull requests, in which case
+    // `GITHUB_REF_NAME` refers to the merge ref.
+    branch: getEnv("GITHUB_HEAD_REF") || getEnv("GITHUB_REF_NAME"),
+    repo_url: repository && `${serverUrl}/${repository}`,
+    repo_provider: "github",
+  };
+};
+
+/**
+ * Detects the build info in GitLab CI/CD pipelines.
+ *
+ * @group Initialization API
+ */
+export const gitlabCiDetector: BuildInfoDetector = (getEnv) => {
+  if (getEnv("GITLAB_CI") !== "true") {
+    return;
+  }
+
+  return {
+    version: getEnv("CI_COMMIT_TAG"),
+    commit: getEnv("CI_COMMIT_SHA"),
+    branch:
+      getEnv("CI_MERGE_REQUEST_SOURCE_BRANCH_NAME") ||
+      getEnv("CI_COMMIT_BRANCH"),
+    repo_url: getEnv("CI_PROJECT_URL"),
+    repo_provider: "gitlab",
+  };
+};
+
+/**
+ * Detects the build info in Vercel builds and deployments. The system
+ * environment variables need to be exposed for this to work, which is the
+ * default for new projects.
+ *
+ * @group Initialization API
+ */
+export const vercelDetector: BuildInfoDetector = (getEnv) => {
+  if (!getEnv("VERCEL")) {
+    return;
+  }
+
+  const provider = getEnv("VERCEL_GIT_PROVIDER");
+  const owner = getEnv("VERCEL_GIT_REPO_OWNER");
+  const slug = getEnv("VERCEL_GIT_REPO_SLUG");
+  const host = provider && REPO_PROVIDER_HOSTS[provider];
+
+  return {
+    commit: getEnv("VERCEL_GIT_COMMIT_SHA"),
+    branch: getEnv("VERCEL_GIT_COMMIT_REF"),
+    repo_url:
+      host && owner && slug ? `https://${host}/${owner}/${slug}` : undefined,
+    repo_provider: provider,
+  };
+};
+
+/**
+ * Detects the build info in Netlify builds.
+ *
+ * @group Initialization API
+ */
+export const netlifyDetector: BuildInfoDetector = (getEnv) => {
+  if (getEnv("NETLIFY") !== "true") {
+    return;
+  }
+
+  const repoUrl = getEnv("REPOSITORY_URL");
+
+  return {
+    commit: getEnv("COMMIT_REF"),
+    branch: getEnv("HEAD") || getEnv("BRANCH"),
+    repo_url: repoUrl,
+    repo_provider: getRepoProvider(repoUrl),
+  };
+};
+
+/**
+ * Detects the build info on Fly.io machines.
+ *
+ * Fly.io does not expose any information about the commit that was deployed,
+ * so only the version is detected, from the tag of the deployed image. Pass
+ * the commit to your Dockerfile as a build argument and expose it as
+ * `AUTOMETRICS_COMMIT` to have it recorded as well.
+ *
+ * @group Initialization API
+ */
+export const flyDetector: BuildInfoDetector = (getEnv) => {
+  const imageRef = getEnv("FLY_IMAGE_REF");
+  if (!getEnv("FLY_APP_NAME") || !imageRef) {
+    return;
+  }
+
+  const tagIndex = imageRef.lastIndexOf(":");
+  return {
+    version:
+      tagIndex > imageRef.lastIndexOf("/")
+        ? imageRef.slice(tagIndex + 1)
+        : undefined,
+  };
+};
+
+/**
+ * Detects the version and repository from the `npm_package_*` environment
+ * variables that package managers set when running a script from
+ * `package.json`.
+ *
+ * @group Initialization API
+ */
+export const npmPackageDetector: BuildInfoDetector = (getEnv) => {
+  const repoUrl = normalizeRepoUrl(getEnv("npm_package_repository_url"));
+
+  return {
+    version: getEnv("npm_package_version"),
+    repo_url: repoUrl,
+    repo_provider: getRepoProvider(repoUrl),
+  };
+};
+
+/**
+ * Creates a detector that takes the version and repository from the contents
+ * of a `package.json` file.
+ *
+ * @example
+ *
+ * ```typescript
+ * import {
+ *   createDefaultBuildInfo,
+ *   defaultBuildInfoDetectors,
+ *   packageJsonDetector,
+ * } from "@autometrics/autometrics";
+ * import packageJson from "./package.json";
+ *
+ * init({
+ *   buildInfo: createDefaultBuildInfo([
+ *     ...defaultBuildInfoDetectors,
+ *     packageJsonDetector(packageJson),
+ *   ]),
+ * });
+ * ```
+ *
+ * @group Initialization API
+ */
+export function packageJsonDetector(packageJson: {
+  version?: string;
+  repository?: string | { url?: string };
+}): BuildInfoDetector {
+  return () => {
+    const { repository } = packageJson;
+    const repoUrl = normalizeRepoUrl(
+      typeof repository === "string" ? repository : repository?.url,
+    );
+
+    return {
+      version: packageJson.version,
+      repo_url: repoUrl,
+      repo_provider: getRepoProvider(repoUrl),
+    };
+  };
+}
+
+/**
+ * The detectors used by `createDefaultBuildInfo()`, in order of precedence.
+ *
+ * @group Initialization API
+ */
+export const defaultBuildInfoDetectors: ReadonlyArray<BuildInfoDetector> = [
+  bakedBuildInfoDetector,
+  autometricsEnvDetector,
+  githubActionsDetector,
+  gitlabCiDetector,
+  vercelDetector,
+  netlifyDetector,
+  flyDetector,
+  npmPackageDetector,
+];
+
+/**
+ * Runs the given detectors and combines their results. Every field is taken
+ * from the first detector that returns a non-empty value for it.
+ *
+ * @param detectors {ReadonlyArray<BuildInfoDetector>} - the detectors to run,
+ * in order of precedence
+ * @param getEnv {Function} - reads an environment variable (defaults to the
+ * environment of the current runtime)
+ *
+ * @group Initialization API
+ */
+export function detectBuildInfo(
+  detectors: ReadonlyArray<BuildInfoDetector> = defaultBuildInfoDetectors,
+  getEnv: (name: string) => string | undefined = getEnvironmentVariable,
+): BuildInfo {
+  const buildInfo: BuildInfo = {};
+
+  for (const detector of detectors) {
+    const detected = detector(getEnv);
+    if (!detected) {
+      continue;
+    }
+
+    for (const field of DETECTED_FIELDS) {
+      if (!buildInfo[field] && detected[field]) {
+        buildInfo[field] = detected[field];
+      }
+    }
+  }
+
+  return buildInfo;
+}
+
+/**
+ * Detects the build info at build time, and returns it as a definition for
+ * the `define` option of bundlers such as esbuild, Vite and webpack (through
+ * its `DefinePlugin`). This bakes the build info into the bundle, so it is
+ * also available in browsers and other runtimes without environment
+ * variables.
+ *
+ * @param detectors {ReadonlyArray<BuildInfoDetector>} - the detectors to run,
+ * in order of precedence (default: {@link defaultBuildInfoDetectors})
+ *
+ * @example
+ *
+ * ```typescript
+ * // vite.config.ts
+ * import { createBuildInfoDefine } from "@autometrics/autometrics";
+ * import { defineConfig } from "vite";
+ *
+ * export default defineConfig({
+ *   define: createBuildInfoDefine(),
+ * });
+ * ```
+ *
+ * @group Initialization API
+ */
+export function createBuildInfoDefine(
+  detectors: ReadonlyArray<BuildInfoDetector> = defaultBuildInfoDetectors,
+): Record<string, string> {
+  return { [BUILD_INFO_DEFINE]: JSON.stringify(detectBuildInfo(detectors)) };
+}
+
+/**
+ * Derives the repository provider from the host in the repository URL.
+ */
+function getRepoProvider(repoUrl: string | undefined): string | undefined {
+  if (!repoUrl) {
+    return;
+  }
+
+  for (const [provider, host] of Object.entries(REPO_PROVIDER_HOSTS)) {
+    if (repoUrl.includes(host)) {
+      return provider;
+    }
+  }
+}
+
+/**
+ * Turns repository URLs as they can be specified in `package.json` (such as
+ * `git+https://github.com/org/repo.git` or `github:org/repo`) into URLs that
+ * can be opened in a browser.
+ */
+function normalizeRepoUrl(repoUrl: string | undefined): string | undefined {
+  if (!repoUrl) {
+    return;
+  }
+
+  const shorthand = repoUrl.match(/^(github|gitlab|bitbucket):(.+)$/);
+  if (shorthand) {
+    return `https://${REPO_PROVIDER_HOSTS[shorthand[1]]}/${shorthand[2]}`;
+  }
+
+  // npm also accepts `owner/repo` as a shorthand for GitHub repositories
+  if (/^[\w.-]+\/[\w.-]+$/.test(repoUrl)) {
+    return `https://github.com/${repoUrl}`;
+  }
+
+  return repoUrl
+    .replace(/^git\+/, "")
+    .replace(/^git:\/\//, "https://")
+    .replace(/^ssh:\/\/git@/, "https://")
+    .replace(/\.git$/, "");
+}
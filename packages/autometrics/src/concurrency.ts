@@ -0,0 +1,212 @@
+import type {
+  Attributes,
+  ObservableGauge,
+  ObservableResult,
+} from "@opentelemetry/api";
+
+import { getConcurrencyGauge, getPeakConcurrencyGauge } from "./instruments";
+
+/**
+ * Error that is thrown (or rather, rejected with) when a call exceeds the
+ * `maxConcurrency` of a function and cannot be queued.
+ *
+ * @group Wrapper and Decorator API
+ */
+export class ConcurrencyLimitError extends Error {
+  constructor(
+    public readonly functionName: string,
+    public readonly maxConcurrency: number,
+  ) {
+    super(
+      `Function ${functionName} is already running ${maxConcurrency} concurrent call(s) and its queue is full.`,
+    );
+    this.name = "ConcurrencyLimitError";
+  }
+}
+
+/**
+ * Limits the number of concurrent calls to a function.
+ *
+ * @internal
+ */
+export type ConcurrencyLimiter = {
+  /**
+   * Acquires a slot if one is available. Returns `false` if all slots are
+   * taken.
+   */
+  tryAcquire(): boolean;
+
+  /**
+   * Waits in the queue for a slot. The callback is invoked once the slot has
+   * been acquired.
+   *
+   * Returns a function that removes the call from the queue, or `undefined` if
+   * the queue is full.
+   */
+  enqueue(onAcquire: () => void): (() => void) | undefined;
+
+  /**
+   * Releases a slot, handing it over to the next call in the queue (if any).
+   */
+  release(): void;
+};
+
+/**
+ * @internal
+ */
+export function createConcurrencyLimiter(
+  maxConcurrency: number,
+  maxQueueSize: number,
+): ConcurrencyLimiter {
+  let activeCalls = 0;
+  const queue: Array<() => void> = [];
+
+  return {
+    tryAcquire() {
+      if (activeCalls >= maxConcurrency) {
+        return false;
+      }
+
+      activeCalls++;
+      return true;
+    },
+
+    enqueue(onAcquire) {
+      if (queue.length >= maxQueueSize) {
+        return undefined;
+      }
+
+      queue.push(onAcquire);
+      return () => {
+        const index = queue.indexOf(onAcquire);
+        if (index > -1) {
+          queue.splice(index, 1);
+        }
+      };
+    },
+
+    release() {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        activeCalls--;
+      }
+    },
+  };
+}
+
+/**
+ * Tracks the number of concurrent calls to a function.
+ *
+ * @internal
+ */
+export type ConcurrencyTracker = {
+  increment(): void;
+  decrement(): void;
+
+  /**
+   * Releases the tracker once the function is no longer used, so its state can
+   * be cleaned up after the calls that are still running have finished.
+   */
+  release(): void;
+};
+
+type ConcurrencyState = {
+  attributes: Attributes;
+  current: number;
+  peak: number;
+
+  /**
+   * The number of trackers that have not been released yet.
+   */
+  trackers: number;
+};
+
+/**
+ * The concurrency of every tracked function, by its serialized attributes.
+ * Functions that are instrumented more than once with the same attributes
+ * share their state, so the peak gauge reports a single series for them.
+ */
+const concurrencyStates = new Map<string, ConcurrencyState>();
+
+/**
+ * The peak gauge the `observePeakConcurrency()` callback is registered with.
+ */
+let observedPeakGauge: ObservableGauge | undefined;
+
+/**
+ * Reports the highest concurrency of every tracked function since the previous
+ * collection, and starts tracking the next interval from the current
+ * concurrency. States that are no longer used are removed after their last
+ * peak has been reported.
+ */
+function observePeakConcurrency(observableResult: ObservableResult) {
+  for (const [key, state] of concurrencyStates) {
+    observableResult.observe(state.peak, state.attributes);
+    state.peak = state.current;
+
+    if (state.trackers === 0 && state.current === 0) {
+      concurrencyStates.delete(key);
+    }
+  }
+}
+
+/**
+ * Creates a tracker that records the concurrent calls of a function in the
+ * `function.calls.concurrent` gauge, and the highest concurrency per
+ * collection interval in the `function.calls.concurrent.peak` gauge.
+ *
+ * Both gauges are always updated with the same attributes, so every increment
+ * is matched by a decrement of the same series.
+ *
+ * @internal
+ */
+export function createConcurrencyTracker(
+  attributes: Attributes,
+): ConcurrencyTracker {
+  const gauge = getConcurrencyGauge();
+
+  // The peak gauge is replaced when the first exporter is registered, in which
+  // case the callback moves along with it.
+  const peakGauge = getPeakConcurrencyGauge();
+  if (peakGauge !== observedPeakGauge) {
+    observedPeakGauge?.removeCallback(observePeakConcurrency);
+    peakGauge.addCallback(observePeakConcurrency);
+    observedPeakGauge = peakGauge;
+  }
+
+  const key = JSON.stringify(Object.entries(attributes).sort());
+  let state = concurrencyStates.get(key);
+  if (!state) {
+    state = { attributes, current: 0, peak: 0, trackers: 0 };
+    concurrencyStates.set(key, state);
+  }
+
+  const trackedState = state;
+  trackedState.trackers++;
+  let isReleased = false;
+
+  return {
+    increment() {
+      trackedState.current++;
+      if (trackedState.current > trackedState.peak) {
+        trackedState.peak = trackedState.current;
+      }
+
+      gauge.add(1, attributes);
+    },
+
+    decrement() {
+      trackedState.current--;
+      gauge.add(-1, attributes);
+    },
+
+    release() {
+      if (!isReleased) {
+        isReleased = true;
+        trackedState.trackers--;
+      }
+    },
+  };
+}
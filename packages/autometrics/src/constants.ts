@@ -2,6 +2,11 @@
 export const COUNTER_NAME = "function.calls" as const;
 export const HISTOGRAM_NAME = "function.calls.duration" as const;
 export const GAUGE_NAME = "function.calls.concurrent" as const;
+export const FIRST_CHUNK_HISTOGRAM_NAME =
+  "function.calls.time_to_first_chunk" as const;
+export const PEAK_GAUGE_NAME = "function.calls.concurrent.peak" as const;
+export const QUEUE_WAIT_HISTOGRAM_NAME =
+  "function.calls.queue_wait_time" as const;
 export const BUILD_INFO_NAME = "build_info" as const;
 
 // Descriptions
@@ -9,6 +14,12 @@ export const COUNTER_DESCRIPTION =
   "Autometrics counter for tracking function calls" as const;
 export const HISTOGRAM_DESCRIPTION =
   "Autometrics histogram for tracking function call duration" as const;
+export const FIRST_CHUNK_HISTOGRAM_DESCRIPTION =
+  "Autometrics histogram for tracking the time until a function's returned stream yields its first chunk" as const;
+export const PEAK_GAUGE_DESCRIPTION =
+  "Autometrics gauge for tracking the highest number of concurrent function calls since the previous collection" as const;
+export const QUEUE_WAIT_HISTOGRAM_DESCRIPTION =
+  "Autometrics histogram for tracking the time calls spend waiting for a free slot when the function's concurrency is limited" as const;
 export const GAUGE_DESCRIPTION =
   "Autometrics gauge for tracking concurrent function calls" as const;
 export const BUILD_INFO_DESCRIPTION =
@@ -0,0 +1,299 @@
+import {
+  ContextManager,
+  context as otelContext,
+  createContextKey,
+} from "@opentelemetry/api";
+
+import { warn } from "./logger";
+import { getSettings } from "./settings";
+import { getRuntime } from "./utils";
+
+/**
+ * The context we store for every instrumented call, so that nested calls know
+ * who their caller is.
+ *
+ * @group Context API
+ */
+export type AutometricsContext = {
+  callerFunction: string;
+  callerModule?: string;
+};
+
+/**
+ * Manages the {@link AutometricsContext} across (asynchronous) function calls.
+ *
+ * By default, Autometrics uses `AsyncLocalStorage` where the runtime provides
+ * it. You can provide your own through the `contextManager` setting, for
+ * instance to reuse the OpenTelemetry `ContextManager` that is already set up
+ * for tracing.
+ *
+ * @group Context API
+ */
+export interface AutometricsContextManager {
+  /**
+   * Returns the context of the currently active instrumented call, if any.
+   */
+  active(): AutometricsContext | undefined;
+
+  /**
+   * Runs the callback with the given context as the active context.
+   */
+  with<T>(context: AutometricsContext, callback: () => T): T;
+}
+
+type AsyncLocalStorageLike = {
+  getStore(): AutometricsContext | undefined;
+  run<T>(store: AutometricsContext, callback: () => T): T;
+};
+
+type AsyncLocalStorageConstructor = new () => AsyncLocalStorageLike;
+
+/**
+ * Creates a context manager that is backed by the given `AsyncLocalStorage`
+ * class.
+ *
+ * @group Context API
+ */
+export function createAsyncLocalStorageContextManager(
+  AsyncLocalStorage: AsyncLocalStorageConstructor,
+): AutometricsContextManager {
+  const storage = new AsyncLocalStorage();
+
+  return {
+    active: () => storage.getStore(),
+    with: (context, callback) => storage.run(context, callback),
+  };
+}
+
+const AUTOMETRICS_CONTEXT_KEY = createContextKey("autometrics context");
+
+/**
+ * Creates a context manager that stores the Autometrics context inside the
+ * OpenTelemetry context.
+ *
+ * If no `ContextManager` is given, the global one that is registered with the
+ * OpenTelemetry API is used.
+ *
+ * @group Context API
+ */
+export function createOpenTelemetryContextManager(
+  contextManager?: ContextManager,
+): AutometricsContextManager {
+  const manager = contextManager ?? otelContext;
+
+  return {
+    active: () =>
+      manager.active().getValue(AUTOMETRICS_CONTEXT_KEY) as
+        | AutometricsContext
+        | undefined,
+    with: (context, callback) =>
+      manager.with(
+        manager.active().setValue(AUTOMETRICS_CONTEXT_KEY, context),
+        callback,
+      ),
+  };
+}
+
+/**
+ * Creates a context manager that tracks the context using a simple call stack.
+ *
+ * This is used in runtimes that provide no means of tracking asynchronous
+ * context, such as browsers. It tracks synchronous nesting of instrumented
+ * calls, but the context is lost after the first `await` inside an instrumented
+ * function. Use {@link bindAutometricsContext} or
+ * {@link runWithAutometricsContext} to carry the context across `await`
+ * boundaries explicitly.
+ *
+ * @group Context API
+ */
+export function createCallStackContextManager(): AutometricsContextManager {
+  const stack: Array<AutometricsContext> = [];
+
+  return {
+    active: () => stack[stack.length - 1],
+    with: (context, callback) => {
+      stack.push(context);
+      try {
+        return callback();
+      } finally {
+        stack.pop();
+      }
+    },
+  };
+}
+
+/**
+ * Looks up the `AsyncLocalStorage` class synchronously, so that instrumented
+ * functions that are called while modules are still loading already have
+ * access to it.
+ */
+function findAsyncLocalStorage(): AsyncLocalStorageConstructor | undefined {
+  // Cloudflare Workers and other edge runtimes expose it as a global.
+  const { AsyncLocalStorage, process } = globalThis as {
+    AsyncLocalStorage?: AsyncLocalStorageConstructor;
+    process?: { getBuiltinModule?(id: string): typeof import("async_hooks") };
+  };
+  if (AsyncLocalStorage) {
+    return AsyncLocalStorage;
+  }
+
+  // Node.js (>= 20.16), Bun and Deno.
+  if (typeof process?.getBuiltinModule === "function") {
+    try {
+      return process.getBuiltinModule("node:async_hooks").AsyncLocalStorage;
+    } catch (_) {}
+  }
+
+  // CommonJS builds.
+  if (typeof require === "function") {
+    try {
+      return require("node:async_hooks").AsyncLocalStorage;
+    } catch (_) {}
+  }
+}
+
+let defaultContextManager = createCallStackContextManager();
+let isLoadingAsyncLocalStorage = false;
+let hasWarnedAboutLoading = false;
+
+const AsyncLocalStorage = findAsyncLocalStorage();
+if (AsyncLocalStorage) {
+  defaultContextManager =
+    createAsyncLocalStorageContextManager(AsyncLocalStorage);
+} else if (getRuntime() === "node" || getRuntime() === "deno") {
+  // Older runtimes may only give us access through a dynamic import (such as
+  // ES modules on Node.js < 20.16). Until it resolves, only the synchronous
+  // nesting of calls is tracked.
+  isLoadingAsyncLocalStorage = true;
+  import("node:async_hooks")
+    .then(({ AsyncLocalStorage }) => {
+      defaultContextManager =
+        createAsyncLocalStorageContextManager(AsyncLocalStorage);
+    })
+    .catch(() => {})
+    .finally(() => {
+      isLoadingAsyncLocalStorage = false;
+    });
+}
+
+/**
+ * Returns the context manager configured through the `contextManager`
+ * setting, or the default one for the current runtime.
+ *
+ * @internal
+ */
+export function getContextManager(): AutometricsContextManager {
+  const { contextManager } = getSettings();
+  if (!contextManager) {
+    return defaultContextManager;
+  }
+
+  if (!isOpenTelemetryContextManager(contextManager)) {
+    return contextManager;
+  }
+
+  let adapter = adaptedContextManagers.get(contextManager);
+  if (!adapter) {
+    adapter = createOpenTelemetryContextManager(contextManager);
+    adaptedContextManagers.set(contextManager, adapter);
+  }
+
+  return adapter;
+}
+
+/**
+ * Warns once if an instrumented function is called while the default context
+ * manager is still loading `AsyncLocalStorage`. Functions may be instrumented
+ * before that, only calling them is too early.
+ *
+ * @internal
+ */
+export function warnIfContextManagerIsLoading() {
+  if (
+    isLoadingAsyncLocalStorage &&
+    !hasWarnedAboutLoading &&
+    !getSettings().contextManager
+  ) {
+    hasWarnedAboutLoading = true;
+    warn(
+      "An instrumented function was called before AsyncLocalStorage was loaded, so callers are only tracked across synchronous calls until it is. To track them from the start, upgrade to Node.js 20.16 or later, or set the contextManager setting to createAsyncLocalStorageContextManager(AsyncLocalStorage) before calling instrumented functions.",
+    );
+  }
+}
+
+const adaptedContextManagers = new WeakMap<
+  ContextManager,
+  AutometricsContextManager
+>();
+
+function isOpenTelemetryContextManager(
+  contextManager: AutometricsContextManager | ContextManager,
+): contextManager is ContextManager {
+  return "bind" in contextManager && "enable" in contextManager;
+}
+
+/**
+ * Returns the context of the instrumented function that is currently running,
+ * if any.
+ *
+ * @group Context API
+ */
+export function getAutometricsContext(): AutometricsContext | undefined {
+  return getContextManager().active();
+}
+
+/**
+ * Runs the callback with the given context, so that instrumented functions
+ * that are called from the callback record the context's function as their
+ * caller.
+ *
+ * This is mainly useful in browsers, where the context cannot be tracked
+ * automatically across `await` boundaries.
+ *
+ * @example
+ * ```typescript
+ * const loadPage = autometrics(async function loadPage() {
+ *   const context = getAutometricsContext();
+ *   await loadConfig();
+ *
+ *   // `fetchUser` will still record `loadPage` as its caller:
+ *   return runWithAutometricsContext(context, () => fetchUser());
+ * });
+ * ```
+ *
+ * @group Context API
+ */
+export function runWithAutometricsContext<T>(
+  context: AutometricsContext | undefined,
+  callback: () => T,
+): T {
+  return context ? getContextManager().with(context, callback) : callback();
+}
+
+/**
+ * Binds the given function to the context that is active at the moment of
+ * binding. Whenever the returned function is called, instrumented functions
+ * that it calls will record the bound context's function as their caller.
+ *
+ * @example
+ * ```typescript
+ * const loadPage = autometrics(async function loadPage() {
+ *   const fetchUserInContext = bindAutometricsContext(fetchUser);
+ *   await loadConfig();
+ *
+ *   return fetchUserInContext();
+ * });
+ * ```
+ *
+ * @group Context API
+ */
+// biome-ignore lint/suspicious/noExplicitAny:
+export function bindAutometricsContext<F extends (...args: any[]) => any>(
+  fn: F,
+): F {
+  const context = getAutometricsContext();
+
+  return function (this: unknown, ...args: Parameters<F>) {
+    return runWithAutometricsContext(context, () => fn.apply(this, args));
+  } as F;
+}
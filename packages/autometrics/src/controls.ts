@@ -0,0 +1,131 @@
+/**
+ * Selects instrumented functions by function name and/or module. Properties
+ * that are left out match any value, so an empty selector matches all
+ * functions.
+ *
+ * @group Wrapper and Decorator API
+ */
+export type InstrumentationSelector = {
+  /**
+   * The name of the function, as used in the `function` label.
+   */
+  function?: string;
+
+  /**
+   * The module of the function, as used in the `module` label.
+   */
+  module?: string;
+};
+
+type InstrumentationRule = InstrumentationSelector & { enabled: boolean };
+
+/**
+ * The rules set through `setInstrumentationEnabled()`, at most one for every
+ * selector.
+ */
+let rules: Array<InstrumentationRule> = [];
+
+/**
+ * Incremented whenever the rules change, so instrumented functions know when
+ * to re-evaluate them.
+ */
+let rulesVersion = 0;
+
+/**
+ * Enables or disables the instrumentation of functions at runtime. Calls to a
+ * disabled function are passed through to the original function directly,
+ * without recording any metrics. The `maxConcurrency` and `queue` options of
+ * disabled functions still apply.
+ *
+ * When the selectors of multiple calls match the same function, the most
+ * specific one wins: a selector with both a function and a module takes
+ * precedence over one with only a function, which takes precedence over one
+ * with only a module. Calling this again with the same selector replaces the
+ * earlier call.
+ *
+ * @param selector {InstrumentationSelector} - the functions to enable or
+ * disable
+ * @param enabled {boolean} - whether the instrumentation should be enabled
+ *
+ * @example
+ *
+ * ```typescript
+ * import { setInstrumentationEnabled } from "@autometrics/autometrics";
+ *
+ * // Disable a single function
+ * setInstrumentationEnabled({ function: "handleMessage" }, false);
+ *
+ * // Disable a whole module, except for one function
+ * setInstrumentationEnabled({ module: "/src/queue.ts" }, false);
+ * setInstrumentationEnabled({ function: "enqueue", module: "/src/queue.ts" }, true);
+ * ```
+ *
+ * @group Wrapper and Decorator API
+ */
+export function setInstrumentationEnabled(
+  selector: InstrumentationSelector,
+  enabled: boolean,
+) {
+  rules = rules.filter(
+    (rule) =>
+      rule.function !== selector.function || rule.module !== selector.module,
+  );
+  rules.push({ function: selector.function, module: selector.module, enabled });
+  rulesVersion++;
+}
+
+/**
+ * Returns whether the instrumentation of the given function is enabled.
+ *
+ * @group Wrapper and Decorator API
+ */
+export function isInstrumentationEnabled(
+  functionName: string,
+  moduleName?: string,
+): boolean {
+  let enabled = true;
+  let matchedSpecificity = -1;
+  for (const rule of rules) {
+    if (
+      (rule.function === undefined || rule.function === functionName) &&
+      (rule.module === undefined || rule.module === moduleName) &&
+      getSpecificity(rule) > matchedSpecificity
+    ) {
+      enabled = rule.enabled;
+      matchedSpecificity = getSpecificity(rule);
+    }
+  }
+
+  return enabled;
+}
+
+function getSpecificity(selector: InstrumentationSelector): number {
+  return (
+    (selector.function !== undefined ? 2 : 0) +
+    (selector.module !== undefined ? 1 : 0)
+  );
+}
+
+/**
+ * Returns a function that checks whether the instrumentation of the given
+ * function is enabled. The result is cached until the rules change, so the
+ * check is cheap enough to be performed on every call.
+ *
+ * @internal
+ */
+export function createEnabledCheck(
+  functionName: string,
+  moduleName?: string,
+): () => boolean {
+  let checkedVersion = -1;
+  let enabled = true;
+
+  return () => {
+    if (checkedVersion !== rulesVersion) {
+      enabled = isInstrumentationEnabled(functionName, moduleName);
+      checkedVersion = rulesVersion;
+    }
+
+    return enabled;
+  };
+}
@@ -0,0 +1,144 @@
+import { warn } from "./logger";
+
+/**
+ * Callback type used for the `classifyError` option.
+ *
+ * Returns a short, descriptive kind for the given error (such as
+ * `"validation"` or `"upstream_5xx"`), which will be recorded in the
+ * `error_kind` label. Make sure the number of distinct kinds stays small, as
+ * every kind results in a separate time series.
+ *
+ * @group Wrapper and Decorator API
+ */
+export type ErrorClassifier = (error: unknown) => string | undefined;
+
+/**
+ * @group Wrapper and Decorator API
+ */
+export type ErrorNameClassifierOptions = {
+  /**
+   * The constructor names that may be recorded as error kinds. Errors that
+   * are constructed by any other class are recorded using the `otherKind`.
+   *
+   * Defaults to the built-in JavaScript error classes.
+   */
+  allowList?: Array<string>;
+
+  /**
+   * The error kind to record for errors that are not in the `allowList`, or
+   * that aren't objects at all (default: `"other"`).
+   */
+  otherKind?: string;
+};
+
+/**
+ * The default maximum number of distinct error kinds per function.
+ */
+export const DEFAULT_MAX_ERROR_KINDS = 20;
+
+/**
+ * The error kind that is recorded once the maximum number of distinct error
+ * kinds for a function has been reached.
+ */
+export const OVERFLOW_ERROR_KIND = "other";
+
+const DEFAULT_ALLOW_LIST = [
+  "AggregateError",
+  "DOMException",
+  "Error",
+  "EvalError",
+  "RangeError",
+  "ReferenceError",
+  "SyntaxError",
+  "TypeError",
+  "URIError",
+];
+
+/**
+ * Creates an {@link ErrorClassifier} that uses the name of the error's
+ * constructor as its kind. Only names from the allow-list are recorded, so the
+ * cardinality of the `error_kind` label remains bounded.
+ *
+ * @example
+ * ```typescript
+ * import { autometrics, errorNameClassifier } from "@autometrics/autometrics";
+ *
+ * const classifyError = errorNameClassifier({
+ *   allowList: ["ValidationError", "TimeoutError"],
+ * });
+ *
+ * const createUser = autometrics({ classifyError }, async function createUser() {
+ *   // ...
+ * });
+ * ```
+ *
+ * @group Wrapper and Decorator API
+ */
+export function errorNameClassifier({
+  allowList = DEFAULT_ALLOW_LIST,
+  otherKind = "other",
+}: ErrorNameClassifierOptions = {}): ErrorClassifier {
+  const allowedNames = new Set(allowList);
+
+  return (error) => {
+    const name =
+      typeof error === "object" && error != null
+        ? error.constructor?.name
+        : undefined;
+
+    return name && allowedNames.has(name) ? name : otherKind;
+  };
+}
+
+/**
+ * The error kinds that have been recorded so far, by function and module.
+ * These are shared by all wrappers of the same function, so the limit applies
+ * to the function rather than to a single wrapper.
+ */
+const recordedErrorKinds = new Map<
+  string,
+  { errorKinds: Set<string>; hasOverflowed: boolean }
+>();
+
+/**
+ * Returns a function that limits the number of distinct error kinds that are
+ * recorded for a function, regardless of whether they come from
+ * `recordErrorIf`, `recordSuccessIf` or `classifyError`. Once more than
+ * `maxErrorKinds` distinct kinds have been seen, all new kinds are replaced
+ * with the {@link OVERFLOW_ERROR_KIND}.
+ *
+ * @internal
+ */
+export function createErrorKindLimiter(
+  functionName: string,
+  moduleName: string | undefined,
+  maxErrorKinds = DEFAULT_MAX_ERROR_KINDS,
+): (errorKind: string) => string {
+  const key = JSON.stringify([functionName, moduleName]);
+  let recorded = recordedErrorKinds.get(key);
+  if (!recorded) {
+    recorded = { errorKinds: new Set(), hasOverflowed: false };
+    recordedErrorKinds.set(key, recorded);
+  }
+
+  const state = recorded;
+  return (errorKind) => {
+    if (!errorKind || state.errorKinds.has(errorKind)) {
+      return errorKind;
+    }
+
+    if (state.errorKinds.size >= maxErrorKinds) {
+      if (!state.hasOverflowed) {
+        state.hasOverflowed = true;
+        warn(
+          `Function ${functionName} exceeded the maximum of ${maxErrorKinds} distinct error kinds. Additional error kinds will be recorded as "${OVERFLOW_ERROR_KIND}".`,
+        );
+      }
+
+      return OVERFLOW_ERROR_KIND;
+    }
+
+    state.errorKinds.add(errorKind);
+    return errorKind;
+  };
+}
@@ -1,17 +1,185 @@
 import {
+  Aggregation,
   ExplicitBucketHistogramAggregation,
+  ExponentialHistogramAggregation,
   View,
 } from "@opentelemetry/sdk-metrics";
 
 import { HISTOGRAM_NAME } from "./constants";
+import { warn } from "./logger";
+import { getSettings } from "./settings";
 
-export function createDefaultHistogramView(): View {
-  return new View({
-    // See: https://github.com/autometrics-dev/autometrics-ts/issues/102
-    aggregation: new ExplicitBucketHistogramAggregation([
-      0, 0.005, 0.01, 0.025, 0.05, 0.075, 0.1, 0.25, 0.5, 0.75, 1, 2.5, 5, 7.5,
-      10,
-    ]),
-    instrumentName: HISTOGRAM_NAME,
-  });
+/**
+ * The default bucket boundaries of the histograms, in seconds.
+ *
+ * See: https://github.com/autometrics-dev/autometrics-ts/issues/102
+ *
+ * @internal
+ */
+export const DEFAULT_HISTOGRAM_BUCKETS: ReadonlyArray<number> = [
+  0, 0.005, 0.01, 0.025, 0.05, 0.075, 0.1, 0.25, 0.5, 0.75, 1, 2.5, 5, 7.5, 10,
+];
+
+/**
+ * Bucket boundaries requested by individual functions through the
+ * `additionalHistogramBuckets` option.
+ */
+const functionBuckets = new Set<number>();
+
+/**
+ * Whether the histogram views have been created. Bucket boundaries that are
+ * requested afterwards can no longer be applied.
+ */
+let viewsCreated = false;
+
+/**
+ * Whether the histograms are recorded as exponential histograms.
+ */
+let exponentialHistograms = false;
+
+/**
+ * The latency thresholds of the objectives, by function name. They are checked
+ * against the bucket boundaries once the histogram views are created, as the
+ * boundaries can still change until then.
+ */
+const latencyObjectiveThresholds = new Map<string, Set<string>>();
+
+/**
+ * Returns the bucket boundaries of the histograms: the boundaries from the
+ * `histogramBuckets` setting (or the defaults), combined with the boundaries
+ * requested by individual functions.
+ *
+ * @internal
+ */
+export function getHistogramBuckets(): Array<number> {
+  const buckets = new Set(
+    getSettings().histogramBuckets ?? DEFAULT_HISTOGRAM_BUCKETS,
+  );
+  for (const bucket of functionBuckets) {
+    buckets.add(bucket);
+  }
+
+  return [...buckets].sort((a, b) => a - b);
+}
+
+/**
+ * Adds the bucket boundaries requested by a function to the histograms.
+ *
+ * @internal
+ */
+export function addHistogramBuckets(
+  functionName: string,
+  buckets: ReadonlyArray<number>,
+) {
+  if (viewsCreated) {
+    const appliedBuckets = getHistogramBuckets();
+    if (buckets.some((bucket) => !appliedBuckets.includes(bucket))) {
+      warn(
+        `Function ${functionName} was instrumented after the exporter was registered, so its histogram buckets cannot be added anymore. Instrument the function before the exporter is registered, or use the histogramBuckets setting instead.`,
+      );
+    }
+    return;
+  }
+
+  for (const bucket of buckets) {
+    functionBuckets.add(bucket);
+  }
+}
+
+function warnAboutExponentialHistograms(functionName: string) {
+  warn(
+    `Function ${functionName} has a latency objective, which cannot be evaluated when the histograms are recorded as exponential histograms. Disable the exponentialHistograms option to use latency objectives.`,
+  );
+}
+
+function warnAboutMissingBucket(
+  functionName: string,
+  threshold: string,
+  buckets: Array<number>,
+) {
+  if (!buckets.includes(Number(threshold))) {
+    warn(
+      `Function ${functionName} has a latency objective with a threshold of ${threshold}s, which is not one of the histogram buckets (${buckets.join(
+        ", ",
+      )}). Add it to the histogramBuckets, otherwise the objective cannot be evaluated.`,
+    );
+  }
+}
+
+/**
+ * Warns if the latency threshold of an objective does not fall exactly on a
+ * bucket boundary, in which case the objective cannot be evaluated from the
+ * histogram. With exponential histograms, no latency objective can be
+ * evaluated at all, which is warned about instead.
+ *
+ * Until the histogram views are created, the threshold is only recorded, and
+ * checked by `createDefaultHistogramView()` against the final boundaries.
+ *
+ * @internal
+ */
+export function checkObjectiveLatencyBucket(
+  functionName: string,
+  threshold: string,
+) {
+  let thresholds = latencyObjectiveThresholds.get(functionName);
+  const isNewFunction = !thresholds;
+  if (!thresholds) {
+    thresholds = new Set();
+    latencyObjectiveThresholds.set(functionName, thresholds);
+  }
+  thresholds.add(threshold);
+
+  if (!viewsCreated) {
+    return;
+  }
+
+  if (exponentialHistograms) {
+    if (isNewFunction) {
+      warnAboutExponentialHistograms(functionName);
+    }
+    return;
+  }
+
+  warnAboutMissingBucket(functionName, threshold, getHistogramBuckets());
+}
+
+/**
+ * Options for the aggregation of the histograms.
+ *
+ * @internal
+ */
+export type HistogramViewOptions = {
+  /**
+   * Aggregate the histogram as an OpenTelemetry exponential histogram, instead
+   * of using explicit bucket boundaries.
+   */
+  exponential?: boolean;
+};
+
+export function createDefaultHistogramView(
+  instrumentName: string = HISTOGRAM_NAME,
+  { exponential = false }: HistogramViewOptions = {},
+): View {
+  const isFirstView = !viewsCreated;
+  viewsCreated = true;
+
+  if (exponential && !exponentialHistograms) {
+    exponentialHistograms = true;
+    for (const functionName of latencyObjectiveThresholds.keys()) {
+      warnAboutExponentialHistograms(functionName);
+    }
+  } else if (!exponential && isFirstView) {
+    const buckets = getHistogramBuckets();
+    for (const [functionName, thresholds] of latencyObjectiveThresholds) {
+      for (const threshold of thresholds) {
+        warnAboutMissingBucket(functionName, threshold, buckets);
+      }
+    }
+  }
+
+  const aggregation: Aggregation = exponential
+    ? new ExponentialHistogramAggregation()
+    : new ExplicitBucketHistogramAggregation(getHistogramBuckets());
+
+  return new View({ aggregation, instrumentName });
 }
@@ -1,5 +1,30 @@
 export * from "./buildInfo";
+export * from "./buildInfoDetectors";
+export { ConcurrencyLimitError } from "./concurrency";
+export {
+  AutometricsContext,
+  AutometricsContextManager,
+  bindAutometricsContext,
+  createAsyncLocalStorageContextManager,
+  createCallStackContextManager,
+  createOpenTelemetryContextManager,
+  getAutometricsContext,
+  runWithAutometricsContext,
+} from "./context";
+export * from "./controls";
+export {
+  ErrorClassifier,
+  ErrorNameClassifierOptions,
+  errorNameClassifier,
+} from "./errorKinds";
 export { registerExporter, ExporterOptions } from "./instrumentation";
+export type { CustomLabels } from "./labels";
 export * as amLogger from "./logger";
+export type { AutometricsSpecVersion } from "./metricNames";
 export * from "./objectives";
+export { getInstrumentedFunctions, InstrumentedFunction } from "./registry";
+export * from "./results";
+export * from "./rules";
+export * from "./sloSpecs";
+export { configure, AutometricsSettings } from "./settings";
 export * from "./wrappers";
@@ -1,12 +1,23 @@
 import type { Meter } from "@opentelemetry/api";
 import { MeterProvider, MetricReader } from "@opentelemetry/sdk-metrics";
 
+import {
+  FIRST_CHUNK_HISTOGRAM_NAME,
+  HISTOGRAM_NAME,
+  QUEUE_WAIT_HISTOGRAM_NAME,
+} from "./constants";
 import { createDefaultHistogramView } from "./histograms";
+import { warn } from "./logger";
+import { NamingMeter, getMetricName } from "./metricNames";
+import { getResource } from "./resource";
 import { TemporaryMeter } from "./temporaryMeter";
 
-const meterProvider = new MeterProvider({
-  views: [createDefaultHistogramView()],
-});
+/**
+ * The `MeterProvider` is only created once the first exporter is registered,
+ * so that its resource and the names of the metrics in its views can follow
+ * the settings.
+ */
+let meterProvider: MeterProvider | undefined;
 
 // Due to https://github.com/open-telemetry/opentelemetry-js/issues/4112,
 // we cannot start collecting metrics in a meter created from our own
@@ -37,6 +48,17 @@ export type ExporterOptions = {
    * function to be called to push their metrics.
    */
   metricsRecorded?(): void;
+
+  /**
+   * Record the histograms as OpenTelemetry exponential histograms, instead of
+   * histograms with explicit bucket boundaries. Only enable this for exporters
+   * that support exponential histograms, such as OTLP. The queries generated by
+   * the TypeScript plugin rely on explicit bucket boundaries.
+   *
+   * This can only be set by the first exporter that is registered.
+   * (default: `false`)
+   */
+  exponentialHistograms?: boolean;
 };
 
 /**
@@ -45,12 +67,31 @@ export type ExporterOptions = {
 export function registerExporter({
   metricReader,
   metricsRecorded,
+  exponentialHistograms = false,
 }: ExporterOptions) {
+  if (!meterProvider) {
+    const histogramViewOptions = { exponential: exponentialHistograms };
+    meterProvider = new MeterProvider({
+      resource: getResource(),
+      views: [
+        HISTOGRAM_NAME,
+        FIRST_CHUNK_HISTOGRAM_NAME,
+        QUEUE_WAIT_HISTOGRAM_NAME,
+      ].map((name) =>
+        createDefaultHistogramView(getMetricName(name), histogramViewOptions),
+      ),
+    });
+  } else if (exponentialHistograms) {
+    warn(
+      "Exponential histograms can only be enabled by the first exporter that is registered.",
+    );
+  }
+
   meterProvider.addMetricReader(metricReader);
 
   if (meter instanceof TemporaryMeter) {
     const temporaryMeter = meter;
-    meter = meterProvider.getMeter("autometrics");
+    meter = new NamingMeter(meterProvider.getMeter("autometrics"));
     temporaryMeter.handover(meter);
   }
 
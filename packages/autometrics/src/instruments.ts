@@ -0,0 +1,189 @@
+import {
+  Attributes,
+  Counter,
+  Histogram,
+  Meter,
+  ObservableGauge,
+  UpDownCounter,
+  ValueType,
+} from "@opentelemetry/api";
+
+import {
+  COUNTER_DESCRIPTION,
+  COUNTER_NAME,
+  FIRST_CHUNK_HISTOGRAM_DESCRIPTION,
+  FIRST_CHUNK_HISTOGRAM_NAME,
+  GAUGE_DESCRIPTION,
+  GAUGE_NAME,
+  HISTOGRAM_DESCRIPTION,
+  HISTOGRAM_NAME,
+  HISTOGRAM_UNIT,
+  PEAK_GAUGE_DESCRIPTION,
+  PEAK_GAUGE_NAME,
+  QUEUE_WAIT_HISTOGRAM_DESCRIPTION,
+  QUEUE_WAIT_HISTOGRAM_NAME,
+} from "./constants";
+import { getMeter } from "./instrumentation";
+
+/**
+ * The instruments are shared by all instrumented functions, so they only need
+ * to be created once per meter. They are created lazily, so that instruments
+ * which are never used don't show up in the exported metrics.
+ */
+let instrumentsMeter: Meter | undefined;
+let counter: Counter | undefined;
+let histogram: Histogram | undefined;
+let firstChunkHistogram: Histogram | undefined;
+let concurrencyGauge: UpDownCounter | undefined;
+let peakConcurrencyGauge: ObservableGauge | undefined;
+let queueWaitHistogram: Histogram | undefined;
+
+/**
+ * Returns the current meter, and discards the shared instruments if they were
+ * created by a different meter (this happens when the first exporter is
+ * registered).
+ */
+function getInstrumentsMeter(): Meter {
+  const meter = getMeter();
+  if (meter !== instrumentsMeter) {
+    instrumentsMeter = meter;
+    counter = undefined;
+    histogram = undefined;
+    firstChunkHistogram = undefined;
+    concurrencyGauge = undefined;
+    peakConcurrencyGauge = undefined;
+    queueWaitHistogram = undefined;
+  }
+
+  return meter;
+}
+
+/**
+ * Returns the shared `function.calls` counter.
+ *
+ * @internal
+ */
+export function getCounter(): Counter {
+  const meter = getInstrumentsMeter();
+  counter ??= meter.createCounter(COUNTER_NAME, {
+    description: COUNTER_DESCRIPTION,
+    valueType: ValueType.INT,
+  });
+  return counter;
+}
+
+/**
+ * Returns the shared `function.calls.duration` histogram.
+ *
+ * @internal
+ */
+export function getHistogram(): Histogram {
+  const meter = getInstrumentsMeter();
+  histogram ??= meter.createHistogram(HISTOGRAM_NAME, {
+    description: HISTOGRAM_DESCRIPTION,
+    unit: HISTOGRAM_UNIT,
+  });
+  return histogram;
+}
+
+/**
+ * Returns the shared `function.calls.time_to_first_chunk` histogram.
+ *
+ * @internal
+ */
+export function getFirstChunkHistogram(): Histogram {
+  const meter = getInstrumentsMeter();
+  firstChunkHistogram ??= meter.createHistogram(FIRST_CHUNK_HISTOGRAM_NAME, {
+    description: FIRST_CHUNK_HISTOGRAM_DESCRIPTION,
+    unit: HISTOGRAM_UNIT,
+  });
+  return firstChunkHistogram;
+}
+
+/**
+ * Returns the shared `function.calls.queue_wait_time` histogram.
+ *
+ * @internal
+ */
+export function getQueueWaitHistogram(): Histogram {
+  const meter = getInstrumentsMeter();
+  queueWaitHistogram ??= meter.createHistogram(QUEUE_WAIT_HISTOGRAM_NAME, {
+    description: QUEUE_WAIT_HISTOGRAM_DESCRIPTION,
+    unit: HISTOGRAM_UNIT,
+  });
+  return queueWaitHistogram;
+}
+
+/**
+ * Returns the shared `function.calls.concurrent` gauge.
+ *
+ * @internal
+ */
+export function getConcurrencyGauge(): UpDownCounter {
+  const meter = getInstrumentsMeter();
+  concurrencyGauge ??= meter.createUpDownCounter(GAUGE_NAME, {
+    description: GAUGE_DESCRIPTION,
+    valueType: ValueType.INT,
+  });
+  return concurrencyGauge;
+}
+
+/**
+ * Returns the shared `function.calls.concurrent.peak` gauge.
+ *
+ * @internal
+ */
+export function getPeakConcurrencyGauge(): ObservableGauge {
+  const meter = getInstrumentsMeter();
+  peakConcurrencyGauge ??= meter.createObservableGauge(PEAK_GAUGE_NAME, {
+    description: PEAK_GAUGE_DESCRIPTION,
+    valueType: ValueType.INT,
+  });
+  return peakConcurrencyGauge;
+}
+
+/**
+ * The calls that have been counted through `countCallLater()`, but that have
+ * not been added to the `function.calls` counter yet, by their attributes.
+ */
+const pendingCalls = new Map<Attributes, number>();
+
+/**
+ * The gauge the `addPendingCalls()` callback is registered with.
+ */
+let pendingCallsGauge: ObservableGauge | undefined;
+
+function addPendingCalls() {
+  const counter = getCounter();
+  for (const [attributes, count] of pendingCalls) {
+    counter.add(count, attributes);
+  }
+
+  pendingCalls.clear();
+}
+
+/**
+ * Counts a call in the shared `function.calls` counter, but only adds it to
+ * the counter once the metrics are collected. Adding to the counter is the
+ * most expensive part of recording a call, as the attributes are hashed every
+ * time, so this is used for calls that are not sampled.
+ *
+ * The calls are added by a callback of the `function.calls.concurrent.peak`
+ * gauge, as the callbacks of observable instruments are invoked before the
+ * other instruments are collected. The attributes should be reused between
+ * calls, so calls with the same attributes are added together.
+ *
+ * @internal
+ */
+export function countCallLater(attributes: Attributes) {
+  // The gauge is replaced when the first exporter is registered, in which case
+  // the callback moves along with it.
+  const gauge = getPeakConcurrencyGauge();
+  if (gauge !== pendingCallsGauge) {
+    pendingCallsGauge?.removeCallback(addPendingCalls);
+    gauge.addCallback(addPendingCalls);
+    pendingCallsGauge = gauge;
+  }
+
+  pendingCalls.set(attributes, (pendingCalls.get(attributes) ?? 0) + 1);
+}
@@ -0,0 +1,189 @@
+import type { Attributes } from "@opentelemetry/api";
+
+import { trace, warn } from "./logger";
+
+/**
+ * Custom labels to attach to the metrics of an instrumented function. Either a
+ * static set of labels, or a callback that derives them from the arguments
+ * the function is called with.
+ *
+ * @group Wrapper and Decorator API
+ */
+// biome-ignore lint/suspicious/noExplicitAny:
+export type CustomLabels<P extends Array<any> = Array<any>> =
+  | Attributes
+  | ((...args: P) => Attributes);
+
+/**
+ * The default maximum number of distinct label sets per function.
+ */
+export const DEFAULT_MAX_LABEL_SETS = 100;
+
+/**
+ * The label set that is used once the maximum number of distinct label sets
+ * for a function has been reached, along with the custom label keys of the
+ * function set to `""`. This follows the OpenTelemetry convention for
+ * cardinality overflows.
+ */
+export const OVERFLOW_LABELS: Attributes = Object.freeze({
+  "otel.metric.overflow": true,
+});
+
+/**
+ * The label set of calls without custom labels. This is a shared instance, so
+ * it can be used to look up precomputed attributes.
+ */
+const NO_LABELS: Attributes = Object.freeze({});
+
+/**
+ * Labels that are set by Autometrics itself and may not be overridden.
+ */
+const RESERVED_LABELS = new Set([
+  "function",
+  "module",
+  "caller",
+  "caller_function",
+  "caller_module",
+  "result",
+  "error_kind",
+  "objective_name",
+  "objective_percentile",
+  "objective_latency_threshold",
+]);
+
+/**
+ * The label sets that have been derived from arguments so far, by function
+ * and module. These are shared by all wrappers of the same function, so the
+ * limit applies to the function rather than to a single wrapper.
+ */
+const seenLabelSetsByFunction = new Map<string, SeenLabelSets>();
+
+type SeenLabelSets = {
+  labelSets: Map<string, Attributes>;
+  hasOverflowed: boolean;
+
+  /**
+   * The keys of all label sets seen so far, set to `""`. Used for calls whose
+   * labels could not be derived, so all series of a metric share their keys.
+   */
+  emptyLabels: Attributes;
+
+  /**
+   * The {@link OVERFLOW_LABELS}, combined with the `emptyLabels`.
+   */
+  overflowLabels: Attributes;
+};
+
+/**
+ * Returns a function that resolves the custom labels for a single call.
+ *
+ * When called without parameters, only static labels are returned. Labels
+ * derived from arguments are left empty, as are the labels of calls for which
+ * the callback throws: every key seen so far is set to `""`.
+ *
+ * Label sets derived from arguments are tracked per function and module, and
+ * once more than `maxLabelSets` distinct sets have been seen, all new sets are
+ * replaced with the {@link OVERFLOW_LABELS}, so a misbehaving callback cannot
+ * blow up the cardinality of the metrics. The custom labels of such calls are
+ * left empty, as their values are what caused the overflow.
+ *
+ * @internal
+ */
+// biome-ignore lint/suspicious/noExplicitAny:
+export function createLabelResolver<P extends Array<any>>(
+  labels: CustomLabels<P> | undefined,
+  functionName: string,
+  moduleName?: string,
+  maxLabelSets = DEFAULT_MAX_LABEL_SETS,
+): (params?: P) => Attributes {
+  if (!labels) {
+    return () => NO_LABELS;
+  }
+
+  if (typeof labels !== "function") {
+    const staticLabels = sanitizeLabels(labels, functionName);
+    return () => staticLabels;
+  }
+
+  const key = JSON.stringify([functionName, moduleName]);
+  let seen = seenLabelSetsByFunction.get(key);
+  if (!seen) {
+    seen = {
+      labelSets: new Map(),
+      hasOverflowed: false,
+      emptyLabels: NO_LABELS,
+      overflowLabels: OVERFLOW_LABELS,
+    };
+    seenLabelSetsByFunction.set(key, seen);
+  }
+
+  const state = seen;
+  return (params) => {
+    if (!params) {
+      return state.emptyLabels;
+    }
+
+    let extracted: Attributes;
+    try {
+      extracted = labels(...params);
+    } catch (callbackError) {
+      trace("Error in labels function: ", callbackError);
+      return state.emptyLabels;
+    }
+
+    const labelSetKey = JSON.stringify(Object.entries(extracted).sort());
+    const labelSet = state.labelSets.get(labelSetKey);
+    if (labelSet) {
+      return labelSet;
+    }
+
+    if (state.labelSets.size >= maxLabelSets) {
+      if (!state.hasOverflowed) {
+        state.hasOverflowed = true;
+        warn(
+          `Function ${functionName} exceeded the maximum of ${maxLabelSets} distinct label sets. Additional label sets will be recorded as overflow.`,
+        );
+      }
+
+      return state.overflowLabels;
+    }
+
+    const sanitized = sanitizeLabels(extracted, functionName);
+    state.labelSets.set(labelSetKey, sanitized);
+    addEmptyLabels(state, sanitized);
+    return sanitized;
+  };
+}
+
+function addEmptyLabels(state: SeenLabelSets, labels: Attributes) {
+  const newKeys = Object.keys(labels).filter(
+    (name) => !(name in state.emptyLabels),
+  );
+  if (newKeys.length === 0) {
+    return;
+  }
+
+  // New objects are created, since the label sets are used as cache keys.
+  const emptyLabels: Attributes = { ...state.emptyLabels };
+  for (const name of newKeys) {
+    emptyLabels[name] = "";
+  }
+
+  state.emptyLabels = Object.freeze(emptyLabels);
+  state.overflowLabels = Object.freeze({ ...emptyLabels, ...OVERFLOW_LABELS });
+}
+
+function sanitizeLabels(labels: Attributes, functionName: string): Attributes {
+  const sanitized: Attributes = {};
+  for (const [name, value] of Object.entries(labels)) {
+    if (RESERVED_LABELS.has(name)) {
+      warn(
+        `Custom label "${name}" of function ${functionName} is reserved by Autometrics and will be ignored.`,
+      );
+    } else {
+      sanitized[name] = value;
+    }
+  }
+
+  return sanitized;
+}
@@ -0,0 +1,140 @@
+import type {
+  Attributes,
+  BatchObservableCallback,
+  Counter,
+  Histogram,
+  Meter,
+  MetricOptions,
+  Observable,
+  ObservableCounter,
+  ObservableGauge,
+  ObservableUpDownCounter,
+  UpDownCounter,
+} from "@opentelemetry/api";
+
+import { COUNTER_NAME } from "./constants";
+import { getSettings } from "./settings";
+
+/**
+ * The versions of the Autometrics spec that metrics can be recorded for. The
+ * spec versions differ in the names of the metrics:
+ *
+ * - `"1.0.0"`: calls are counted in `function.calls` (exported to Prometheus
+ *   as `function_calls_total`).
+ * - `"legacy"`: calls are counted in `function.calls.count` (exported to
+ *   Prometheus as `function_calls_count_total`), as was done before the 1.0.0
+ *   spec.
+ *
+ * @group Initialization API
+ */
+export type AutometricsSpecVersion = "1.0.0" | "legacy";
+
+/**
+ * @internal
+ */
+export const DEFAULT_SPEC_VERSION: AutometricsSpecVersion = "1.0.0";
+
+/**
+ * Names of metrics that differ from the names in the 1.0.0 spec, which are the
+ * names used throughout the code base.
+ */
+const RENAMED_METRICS: Record<
+  AutometricsSpecVersion,
+  Record<string, string>
+> = {
+  "1.0.0": {},
+  legacy: { [COUNTER_NAME]: "function.calls.count" },
+};
+
+/**
+ * Returns the name under which a metric is recorded, taking the `specVersion`
+ * and `namespace` settings into account.
+ *
+ * @param name {string} - the name of the metric in the 1.0.0 spec, as defined
+ * in the constants
+ *
+ * @internal
+ */
+export function getMetricName(name: string): string {
+  const { specVersion = DEFAULT_SPEC_VERSION, namespace } = getSettings();
+
+  const versionedName = RENAMED_METRICS[specVersion]?.[name] ?? name;
+  return namespace ? `${namespace}.${versionedName}` : versionedName;
+}
+
+/**
+ * Wraps a meter, so that all instruments created through it are named using
+ * {@link getMetricName}.
+ *
+ * Instruments are created with their 1.0.0 spec names throughout the code
+ * base (which is also what the temporary meter tracks them as), and only get
+ * their final name once they are created by the actual meter.
+ *
+ * @internal
+ */
+export class NamingMeter implements Meter {
+  constructor(private _meter: Meter) {}
+
+  createCounter<AttributesTypes extends Attributes = Attributes>(
+    name: string,
+    options?: MetricOptions,
+  ): Counter<AttributesTypes> {
+    return this._meter.createCounter(getMetricName(name), options);
+  }
+
+  createHistogram<AttributesTypes extends Attributes = Attributes>(
+    name: string,
+    options?: MetricOptions,
+  ): Histogram<AttributesTypes> {
+    return this._meter.createHistogram(getMetricName(name), options);
+  }
+
+  createUpDownCounter<AttributesTypes extends Attributes = Attributes>(
+    name: string,
+    options?: MetricOptions,
+  ): UpDownCounter<AttributesTypes> {
+    return this._meter.createUpDownCounter(getMetricName(name), options);
+  }
+
+  createObservableCounter<AttributesTypes extends Attributes = Attributes>(
+    name: string,
+    options?: MetricOptions,
+  ): ObservableCounter<AttributesTypes> {
+    return this._meter.createObservableCounter(getMetricName(name), options);
+  }
+
+  createObservableGauge<AttributesTypes extends Attributes = Attributes>(
+    name: string,
+    options?: MetricOptions,
+  ): ObservableGauge<AttributesTypes> {
+    return this._meter.createObservableGauge(getMetricName(name), options);
+  }
+
+  createObservableUpDownCounter<
+    AttributesTypes extends Attributes = Attributes,
+  >(
+    name: string,
+    options?: MetricOptions,
+  ): ObservableUpDownCounter<AttributesTypes> {
+    return this._meter.createObservableUpDownCounter(
+      getMetricName(name),
+      options,
+    );
+  }
+
+  addBatchObservableCallback<AttributesTypes extends Attributes = Attributes>(
+    callback: BatchObservableCallback<AttributesTypes>,
+    observables: Array<Observable<AttributesTypes>>,
+  ): void {
+    this._meter.addBatchObservableCallback(callback, observables);
+  }
+
+  removeBatchObservableCallback<
+    AttributesTypes extends Attributes = Attributes,
+  >(
+    callback: BatchObservableCallback<AttributesTypes>,
+    observables: Array<Observable<AttributesTypes>>,
+  ): void {
+    this._meter.removeBatchObservableCallback(callback, observables);
+  }
+}
@@ -0,0 +1,134 @@
+import { getMetricName } from "./metricNames";
+import { Objective, normalizeObjective } from "./objectives";
+
+/**
+ * A single success rate or latency target of an objective.
+ *
+ * @internal
+ */
+export type ObjectiveTarget = {
+  type: "success_rate" | "latency";
+  name: string;
+  percentile: string;
+  threshold?: string;
+
+  /**
+   * The labels that identify the target.
+   */
+  labels: Record<string, string>;
+
+  /**
+   * The labels that select the calls the target applies to in the recorded
+   * metrics. Durations are recorded once per call, so calls are not labeled
+   * with the latency target they are evaluated against: latency targets are
+   * told apart by their threshold, using the `le` label of the buckets.
+   */
+  selector: Record<string, string>;
+};
+
+/**
+ * Returns the success rate and latency targets of the given objectives,
+ * without duplicates (objectives are typically shared by multiple functions).
+ *
+ * Throws if any of the objectives has an invalid percentile or threshold.
+ *
+ * @internal
+ */
+export function getObjectiveTargets(
+  objectives: Array<Objective>,
+): Array<ObjectiveTarget> {
+  const targets = new Map<string, ObjectiveTarget>();
+  const addTarget = (target: ObjectiveTarget) => {
+    targets.set(JSON.stringify(target.labels), target);
+  };
+
+  for (const objective of objectives) {
+    const { name, successRate, latency } = normalizeObjective(
+      objective,
+      (message) => {
+        throw new Error(message);
+      },
+    );
+
+    if (successRate) {
+      const labels = {
+        objective_name: name,
+        objective_percentile: successRate,
+      };
+      addTarget({
+        type: "success_rate",
+        name,
+        percentile: successRate,
+        labels,
+        selector: labels,
+      });
+    }
+
+    for (const { threshold, percentile } of latency) {
+      addTarget({
+        type: "latency",
+        name,
+        percentile,
+        threshold,
+        labels: {
+          objective_name: name,
+          objective_latency_threshold: threshold,
+          objective_percentile: percentile,
+        },
+        selector: { objective_name: name },
+      });
+    }
+  }
+
+  return [...targets.values()];
+}
+
+/**
+ * Returns the fraction of calls that may fail to meet an objective with the
+ * given percentile.
+ *
+ * @internal
+ */
+export function getErrorBudget(percentile: string): number {
+  return roundRatio((100 - Number(percentile)) / 100);
+}
+
+/**
+ * Rounds away floating point artifacts, such as in `1 - 0.9995`.
+ *
+ * @internal
+ */
+export function roundRatio(ratio: number): number {
+  return Number(ratio.toPrecision(12));
+}
+
+/**
+ * Returns the name under which a metric is exported to Prometheus.
+ *
+ * @internal
+ */
+export function getPrometheusName(name: string): string {
+  return getMetricName(name).replace(/\./g, "_");
+}
+
+/**
+ * Formats labels as a PromQL selector, such as `{key="value"}`, optionally
+ * followed by other matchers, such as `result!~"cancelled"`.
+ *
+ * @internal
+ */
+export function formatSelector(
+  labels: Record<string, string>,
+  ...otherMatchers: Array<string | undefined>
+): string {
+  const matchers = Object.entries(labels).map(
+    ([key, value]) => `${key}=${JSON.stringify(value)}`,
+  );
+  for (const matcher of otherMatchers) {
+    if (matcher) {
+      matchers.push(matcher);
+    }
+  }
+
+  return `{${matchers.join(",")}}`;
+}
@@ -33,14 +33,51 @@
  * By default, these recording rules will effectively lay dormant.
  * However, they are enabled when the special labels are present on certain metrics.
  *
+ * #### Custom values
+ *
+ * Besides the values of the {@link ObjectivePercentile} and
+ * {@link ObjectiveLatency} enums, objectives accept numeric percentiles (such
+ * as `99.95`) and latency thresholds in seconds (such as `0.3`). An objective
+ * can also have multiple latency targets:
+ *
+ * ```ts
+ * const API_SLO: Objective = {
+ *   name: 'api',
+ *   successRate: 99.95,
+ *   latency: [
+ *     [ObjectiveLatency.Ms100, ObjectivePercentile.P95],
+ *     [0.3, 99],
+ *   ],
+ * };
+ * ```
+ *
+ * The recording rules that come with Autometrics only cover the values of the
+ * enums, and objectives with a single latency target. Use
+ * {@link generateRecordingRules} to generate the rules for other objectives.
+ * An empty `latency` array means the objective has no latency target.
+ *
+ * To manage objectives with other SLO tooling, use {@link generateOpenSlo} or
+ * {@link generateSlothSpec} to export them as OpenSLO or Sloth specs.
+ *
  * @group Service Level Objective API
  */
 export type Objective = {
   name: string;
-  successRate?: ObjectivePercentile;
-  latency?: [ObjectiveLatency, ObjectivePercentile];
+  successRate?: ObjectivePercentile | number;
+  latency?: ObjectiveLatencyTarget | Array<ObjectiveLatencyTarget>;
 };
 
+/**
+ * A latency target of an objective: the percentage of requests (second
+ * element) that must finish within the latency threshold (first element).
+ *
+ * @group Service Level Objective API
+ */
+export type ObjectiveLatencyTarget = [
+  ObjectiveLatency | number,
+  ObjectivePercentile | number,
+];
+
 /**
  * The percentage of requests that must meet the given criteria (success rate or latency)
  *
@@ -128,3 +165,89 @@ export enum ObjectiveLatency {
    */
   Ms10000 = "10",
 }
+
+/**
+ * An objective with validated values, formatted the way they are used in the
+ * `objective_*` labels.
+ *
+ * @internal
+ */
+export type NormalizedObjective = {
+  name: string;
+  successRate?: string;
+  latency: Array<{ threshold: string; percentile: string }>;
+};
+
+/**
+ * Validates the values of an objective, and formats them for use in labels.
+ * Invalid values are left out with a warning.
+ *
+ * @internal
+ */
+export function normalizeObjective(
+  objective: Objective,
+  onInvalid: (message: string) => void,
+): NormalizedObjective {
+  const { name, successRate, latency } = objective;
+
+  const normalized: NormalizedObjective = { name, latency: [] };
+
+  if (successRate !== undefined) {
+    if (isValidPercentile(successRate)) {
+      normalized.successRate = String(successRate);
+    } else {
+      onInvalid(
+        `Objective ${name} has an invalid success rate of ${successRate}. It must be a percentage between 0 and 100.`,
+      );
+    }
+  }
+
+  for (const [threshold, percentile] of getLatencyTargets(latency)) {
+    if (!isValidThreshold(threshold)) {
+      onInvalid(
+        `Objective ${name} has an invalid latency threshold of ${threshold}. It must be a positive number of seconds.`,
+      );
+    } else if (!isValidPercentile(percentile)) {
+      onInvalid(
+        `Objective ${name} has an invalid latency percentile of ${percentile}. It must be a percentage between 0 and 100.`,
+      );
+    } else {
+      normalized.latency.push({
+        threshold: String(Number(threshold)),
+        percentile: String(Number(percentile)),
+      });
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Returns the latency targets of an objective as an array, also when only a
+ * single target is given.
+ */
+function getLatencyTargets(
+  latency: Objective["latency"],
+): Array<ObjectiveLatencyTarget> {
+  if (!latency || latency.length === 0) {
+    return [];
+  }
+
+  return isLatencyTarget(latency) ? [latency] : latency;
+}
+
+function isLatencyTarget(
+  latency: ObjectiveLatencyTarget | Array<ObjectiveLatencyTarget>,
+): latency is ObjectiveLatencyTarget {
+  return !Array.isArray(latency[0]);
+}
+
+function isValidPercentile(percentile: string | number): boolean {
+  const value = Number(percentile);
+  return value > 0 && value < 100;
+}
+
+function isValidThreshold(threshold: string | number): boolean {
+  const value = Number(threshold);
+  return value > 0 && Number.isFinite(value);
+}
@@ -0,0 +1,118 @@
+import { warn } from "./logger";
+import type { Objective } from "./objectives";
+
+/**
+ * A function that has been instrumented with Autometrics.
+ *
+ * @group Wrapper and Decorator API
+ */
+export type InstrumentedFunction = {
+  /**
+   * The name of the function, as used in the `function` label.
+   */
+  name: string;
+
+  /**
+   * The module of the function, as used in the `module` label.
+   */
+  module?: string;
+
+  /**
+   * The objective the function contributes to, if any.
+   */
+  objective?: Objective;
+
+  /**
+   * Whether the number of concurrent calls is tracked.
+   */
+  trackConcurrency: boolean;
+
+  /**
+   * Whether a different function has been instrumented with the same name and
+   * module. The metrics of such functions cannot be told apart.
+   */
+  nameCollision: boolean;
+};
+
+/**
+ * The instrumented functions by their name and module, together with the source
+ * of the original function and whether it has been instrumented with
+ * conflicting objectives.
+ */
+const instrumentedFunctions = new Map<
+  string,
+  { fn: InstrumentedFunction; source: string; hasObjectiveConflict: boolean }
+>();
+
+/**
+ * Registers a function that has been instrumented.
+ *
+ * Instrumenting a different function under the name and module of a function
+ * that was instrumented before is reported as a name collision. Functions with
+ * the same source are not, as these are typically the same function being
+ * instrumented more than once, such as a callback that is wrapped every time
+ * a request is handled. Instrumenting a function with a different objective
+ * than before is reported as well, as only the first objective is listed.
+ *
+ * @internal
+ */
+export function registerInstrumentedFunction(
+  fn: Omit<InstrumentedFunction, "nameCollision">,
+  original: Function,
+) {
+  const key = JSON.stringify([fn.name, fn.module]);
+  const source = Function.prototype.toString.call(original);
+
+  const registered = instrumentedFunctions.get(key);
+  if (!registered) {
+    instrumentedFunctions.set(key, {
+      fn: { ...fn, nameCollision: false },
+      source,
+      hasObjectiveConflict: false,
+    });
+    return;
+  }
+
+  if (
+    !registered.hasObjectiveConflict &&
+    JSON.stringify(registered.fn.objective) !== JSON.stringify(fn.objective)
+  ) {
+    registered.hasObjectiveConflict = true;
+    warn(
+      `Function ${fn.name}${
+        fn.module ? ` in module ${fn.module}` : ""
+      } has been instrumented more than once, with different objectives. Only the objective ${
+        registered.fn.objective?.name ?? "(none)"
+      } it was first instrumented with is listed by getInstrumentedFunctions().`,
+    );
+  }
+
+  if (registered.source !== source && !registered.fn.nameCollision) {
+    registered.fn.nameCollision = true;
+    warn(
+      `Function ${fn.name}${
+        fn.module ? ` in module ${fn.module}` : ""
+      } has been instrumented more than once, with different implementations. The metrics of functions with the same name and module cannot be told apart, give them a unique name using the functionName option.`,
+    );
+  }
+}
+
+/**
+ * Returns the functions that have been instrumented so far, which can be used
+ * to verify that all functions that should be instrumented are.
+ *
+ * @example
+ *
+ * ```typescript
+ * import { getInstrumentedFunctions } from "@autometrics/autometrics";
+ *
+ * for (const fn of getInstrumentedFunctions()) {
+ *   console.log(fn.name, fn.module, fn.objective?.name);
+ * }
+ * ```
+ *
+ * @group Wrapper and Decorator API
+ */
+export function getInstrumentedFunctions(): Array<InstrumentedFunction> {
+  return [...instrumentedFunctions.values()].map(({ fn }) => ({ ...fn }));
+}
@@ -0,0 +1,52 @@
+import { IResource, Resource, envDetectorSync } from "@opentelemetry/resources";
+
+import { getSettings } from "./settings";
+
+const SERVICE_NAME_ATTRIBUTE = "service.name";
+
+/**
+ * The resource is only created once it is needed, which is when the first
+ * exporter is registered, so that it can follow the settings.
+ */
+let resource: IResource | undefined;
+
+/**
+ * Returns the OpenTelemetry resource the metrics are associated with.
+ *
+ * The attributes are taken from (in order of increasing precedence):
+ *
+ * - The default resource of the OpenTelemetry SDK.
+ * - The `OTEL_RESOURCE_ATTRIBUTES` and `OTEL_SERVICE_NAME` environment
+ *   variables.
+ * - The `resource` setting.
+ * - The `serviceName` setting.
+ *
+ * @internal
+ */
+export function getResource(): IResource {
+  if (!resource) {
+    const { resource: attributes, serviceName } = getSettings();
+
+    resource = Resource.default()
+      .merge(envDetectorSync.detect())
+      .merge(attributes ? new Resource(attributes) : null)
+      .merge(
+        serviceName
+          ? new Resource({ [SERVICE_NAME_ATTRIBUTE]: serviceName })
+          : null,
+      );
+  }
+
+  return resource;
+}
+
+/**
+ * Returns the name of the service, as used in the `service_name` label of the
+ * `build_info` metric.
+ *
+ * @internal
+ */
+export function getServiceName(): string {
+  const serviceName = getResource().attributes[SERVICE_NAME_ATTRIBUTE];
+  return typeof serviceName === "string" ? serviceName : "";
+}
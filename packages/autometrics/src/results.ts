@@ -0,0 +1,74 @@
+/**
+ * The results of calls that were interrupted, rather than finished by
+ * themselves. See {@link CallResult}.
+ *
+ * @group Service Level Objective API
+ */
+export type InterruptedResult = "cancelled" | "timeout" | "rejected";
+
+/**
+ * All interrupted results.
+ *
+ * @group Service Level Objective API
+ */
+export const INTERRUPTED_RESULTS: ReadonlyArray<InterruptedResult> = [
+  "cancelled",
+  "timeout",
+  "rejected",
+];
+
+/**
+ * Options for the error ratios of success rate objectives, and of the queries
+ * generated by the TypeScript plugin.
+ *
+ * @group Service Level Objective API
+ */
+export type ErrorRatioOptions = {
+  /**
+   * The interrupted results to count as errors. Interrupted calls that are not
+   * listed are left out of the error ratio entirely. (default: `[]`)
+   */
+  errorRatioIncludes?: ReadonlyArray<InterruptedResult>;
+};
+
+/**
+ * PromQL matchers on the `result` label of the `function.calls` counter.
+ *
+ * @group Service Level Objective API
+ */
+export type ResultMatchers = {
+  /**
+   * Matches the calls that count as errors, such as `result=~"error"`.
+   */
+  errors: string;
+
+  /**
+   * Matches the calls that count towards the total, or `undefined` if all
+   * calls do.
+   */
+  total?: string;
+};
+
+/**
+ * Returns the matchers that select the errors and the total number of calls of
+ * an error ratio. Generated rules, SLO specs and the queries of the TypeScript
+ * plugin all use these, so they report the same error ratio.
+ *
+ * @param options {ErrorRatioOptions}
+ * @returns {ResultMatchers}
+ *
+ * @group Service Level Objective API
+ */
+export function getResultMatchers({
+  errorRatioIncludes = [],
+}: ErrorRatioOptions = {}): ResultMatchers {
+  const errorResults = ["error", ...errorRatioIncludes].join("|");
+  const excludedResults = INTERRUPTED_RESULTS.filter(
+    (result) => !errorRatioIncludes.includes(result),
+  ).join("|");
+
+  return {
+    errors: `result=~"${errorResults}"`,
+    total: excludedResults ? `result!~"${excludedResults}"` : undefined,
+  };
+}
@@ -0,0 +1,264 @@
+import { COUNTER_NAME, HISTOGRAM_NAME } from "./constants";
+import {
+  ObjectiveTarget,
+  formatSelector,
+  getErrorBudget,
+  getObjectiveTargets,
+  getPrometheusName,
+  roundRatio,
+} from "./objectiveTargets";
+import { Objective } from "./objectives";
+import { ErrorRatioOptions, getResultMatchers } from "./results";
+import { formatYamlString } from "./yaml";
+
+/**
+ * A Prometheus recording rule.
+ *
+ * @group Service Level Objective API
+ */
+export type PrometheusRecordingRule = {
+  record: string;
+  expr: string;
+  labels?: Record<string, string>;
+};
+
+/**
+ * A Prometheus alerting rule.
+ *
+ * @group Service Level Objective API
+ */
+export type PrometheusAlertingRule = {
+  alert: string;
+  expr: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+};
+
+/**
+ * A group of Prometheus rules, as it appears in a rules file.
+ *
+ * @group Service Level Objective API
+ */
+export type PrometheusRuleGroup = {
+  name: string;
+  rules: Array<PrometheusRecordingRule | PrometheusAlertingRule>;
+};
+
+/**
+ * The windows over which the error ratios of objectives are recorded. These
+ * are the windows used by multi-window, multi-burn-rate alerts.
+ */
+const RECORDING_WINDOWS = ["5m", "30m", "1h", "2h", "6h", "1d", "3d"] as const;
+
+type RecordingWindow = typeof RECORDING_WINDOWS[number];
+
+/**
+ * The multi-window, multi-burn-rate alerts from the Google SRE workbook: an
+ * alert fires when the error budget is burned at the given rate in both the
+ * long and the short window.
+ *
+ * See: https://sre.google/workbook/alerting-on-slos/
+ */
+const BURN_RATE_ALERTS: Array<{
+  severity: string;
+  windows: Array<[long: RecordingWindow, short: RecordingWindow, rate: number]>;
+}> = [
+  {
+    severity: "page",
+    windows: [
+      ["1h", "5m", 14.4],
+      ["6h", "30m", 6],
+    ],
+  },
+  {
+    severity: "ticket",
+    windows: [
+      ["1d", "2h", 3],
+      ["3d", "6h", 1],
+    ],
+  },
+];
+
+/**
+ * Generates the Prometheus recording rules for the given objectives. For every
+ * success rate and latency target, the ratio of calls that did not meet the
+ * objective is recorded as `slo:sli_error:ratio_rate<window>`. Latency targets
+ * are evaluated using the histogram bucket of their threshold, so an objective
+ * can have multiple latency targets. Interrupted calls are left out of the
+ * success rates, unless they are listed in `errorRatioIncludes`.
+ *
+ * Unlike the recording rules that come with Autometrics, these rules also work
+ * for objectives with custom percentiles and latency thresholds. The metric
+ * names follow the `specVersion` and `namespace` settings.
+ *
+ * Throws if any of the objectives has an invalid percentile or threshold.
+ *
+ * @param objectives {Array<Objective>} - the objectives to generate rules for
+ * @param options {ErrorRatioOptions}
+ * @returns {Array<PrometheusRuleGroup>} a rule group per objective, which can
+ * be turned into a rules file using {@link formatPrometheusRules}
+ *
+ * @group Service Level Objective API
+ */
+export function generateRecordingRules(
+  objectives: Array<Objective>,
+  options: ErrorRatioOptions = {},
+): Array<PrometheusRuleGroup> {
+  const resultMatchers = getResultMatchers(options);
+  const counterName = `${getPrometheusName(COUNTER_NAME)}_total`;
+  const histogramName = getPrometheusName(HISTOGRAM_NAME);
+
+  return groupByObjective(getObjectiveTargets(objectives), "slo", (target) =>
+    RECORDING_WINDOWS.map((window) => {
+      const { percentile, threshold, selector } = target;
+
+      let expr: string;
+      let labels: Record<string, string> = { slo_type: target.type };
+      if (threshold) {
+        const bucketSelector = formatSelector({ ...selector, le: threshold });
+        const totalSelector = formatSelector(selector);
+        const by = "objective_name";
+
+        expr = `1 - (\n  sum by (${by}) (rate(${histogramName}_bucket${bucketSelector}[${window}]))\n  /\n  sum by (${by}) (rate(${histogramName}_count${totalSelector}[${window}]))\n)`;
+
+        // The durations are not labeled with the latency target, so the ratio
+        // is recorded with the labels of the target instead.
+        labels = {
+          ...labels,
+          objective_latency_threshold: threshold,
+          objective_percentile: percentile,
+        };
+      } else {
+        const errorSelector = formatSelector(selector, resultMatchers.errors);
+        const totalSelector = formatSelector(selector, resultMatchers.total);
+        const by = "objective_name, objective_percentile";
+
+        expr = `sum by (${by}) (rate(${counterName}${errorSelector}[${window}]))\n/\nsum by (${by}) (rate(${counterName}${totalSelector}[${window}]))`;
+      }
+
+      return {
+        record: `slo:sli_error:ratio_rate${window}`,
+        expr,
+        labels,
+      };
+    }),
+  );
+}
+
+/**
+ * Generates multi-window, multi-burn-rate alerting rules for the given
+ * objectives, based on the error ratios recorded by the rules from
+ * {@link generateRecordingRules}.
+ *
+ * For every success rate and latency target, a `page` alert fires when the
+ * error budget is burned quickly (14.4 times the sustainable rate over 1 hour,
+ * or 6 times over 6 hours), and a `ticket` alert fires when it is burned
+ * steadily (3 times over 1 day, or once over 3 days).
+ *
+ * Throws if any of the objectives has an invalid percentile or threshold.
+ *
+ * @param objectives {Array<Objective>} - the objectives to generate alerts for
+ * @returns {Array<PrometheusRuleGroup>} a rule group per objective
+ *
+ * @group Service Level Objective API
+ */
+export function generateAlertingRules(
+  objectives: Array<Objective>,
+): Array<PrometheusRuleGroup> {
+  return groupByObjective(
+    getObjectiveTargets(objectives),
+    "slo-alerts",
+    (target) => {
+      const errorBudget = getErrorBudget(target.percentile);
+      const errorBudgetPercentage = roundRatio(errorBudget * 100);
+      const selector = formatSelector({
+        ...target.labels,
+        slo_type: target.type,
+      });
+      const description =
+        target.type === "latency"
+          ? `More than ${errorBudgetPercentage}% of the calls take longer than ${target.threshold}s`
+          : `More than ${errorBudgetPercentage}% of the calls result in an error`;
+
+      return BURN_RATE_ALERTS.map(({ severity, windows }) => ({
+        alert: target.type === "latency" ? "HighLatency" : "HighErrorRate",
+        expr: windows
+          .map(([long, short, rate]) => {
+            const threshold = roundRatio(rate * errorBudget);
+            return `(\n  slo:sli_error:ratio_rate${long}${selector} > ${threshold}\n  and\n  slo:sli_error:ratio_rate${short}${selector} > ${threshold}\n)`;
+          })
+          .join("\nor\n"),
+        labels: { ...target.labels, severity },
+        annotations: {
+          summary: `Objective ${target.name} is burning its error budget`,
+          description: `${description}, which would exhaust the error budget of the ${target.percentile}% objective too soon.`,
+        },
+      }));
+    },
+  );
+}
+
+/**
+ * Formats rule groups as a Prometheus rules file.
+ *
+ * @group Service Level Objective API
+ */
+export function formatPrometheusRules(
+  groups: Array<PrometheusRuleGroup>,
+): string {
+  const lines = ["groups:"];
+  for (const group of groups) {
+    lines.push(`  - name: ${formatYamlString(group.name)}`, "    rules:");
+
+    for (const rule of group.rules) {
+      lines.push(
+        "record" in rule
+          ? `      - record: ${formatYamlString(rule.record)}`
+          : `      - alert: ${formatYamlString(rule.alert)}`,
+        "        expr: |",
+        ...rule.expr.split("\n").map((line) => `          ${line}`),
+      );
+
+      if (rule.labels) {
+        lines.push("        labels:", ...formatYamlMap(rule.labels));
+      }
+
+      if ("annotations" in rule && rule.annotations) {
+        lines.push("        annotations:", ...formatYamlMap(rule.annotations));
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Creates a rule group for every objective, containing the rules for all its
+ * targets.
+ */
+function groupByObjective(
+  targets: Array<ObjectiveTarget>,
+  prefix: string,
+  createRules: (
+    target: ObjectiveTarget,
+  ) => Array<PrometheusRecordingRule | PrometheusAlertingRule>,
+): Array<PrometheusRuleGroup> {
+  const groups = new Map<string, PrometheusRuleGroup>();
+  for (const target of targets) {
+    let group = groups.get(target.name);
+    if (!group) {
+      group = { name: `autometrics-${prefix}-${target.name}`, rules: [] };
+      groups.set(target.name, group);
+    }
+
+    group.rules.push(...createRules(target));
+  }
+
+  return [...groups.values()];
+}
+
+function formatYamlMap(map: Record<string, string>): Array<string> {
+  return Object.entries(map).map(
+    ([key, value]) => `          ${key}: ${formatYamlString(value)}`,
+  );
+}
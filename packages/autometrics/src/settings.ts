@@ -0,0 +1,133 @@
+import type { Attributes, ContextManager } from "@opentelemetry/api";
+
+import type { AutometricsContextManager } from "./context";
+import { warn } from "./logger";
+import type { AutometricsSpecVersion } from "./metricNames";
+
+/**
+ * Settings that apply to all functions instrumented by Autometrics.
+ *
+ * These can be passed to the `init()` function of any of the exporters, or be
+ * set directly using {@link configure}.
+ *
+ * @group Initialization API
+ */
+export type AutometricsSettings = {
+  /**
+   * Also record the caller's function name in the `caller` label, in addition
+   * to the `caller_function` and `caller_module` labels from the Autometrics
+   * spec.
+   *
+   * This is only intended for migrating dashboards and queries that still rely
+   * on the `caller` label, and will be removed in a future version.
+   * (default: `false`)
+   */
+  legacyCallerLabel?: boolean;
+
+  /**
+   * The context manager used for tracking the callers of instrumented
+   * functions across asynchronous calls.
+   *
+   * Accepts an OpenTelemetry `ContextManager`, such as the one you use for
+   * tracing, or a custom {@link AutometricsContextManager}. By default,
+   * `AsyncLocalStorage` is used if the runtime provides it.
+   *
+   * ES modules on Node.js versions before 20.16 can only load
+   * `AsyncLocalStorage` asynchronously, so callers of the first calls may not
+   * be tracked. Set this to
+   * `createAsyncLocalStorageContextManager(AsyncLocalStorage)` to track them
+   * from the start.
+   */
+  contextManager?: AutometricsContextManager | ContextManager;
+
+  /**
+   * The version of the Autometrics spec that determines the names of the
+   * recorded metrics. Use `"legacy"` to keep using the metric names from before
+   * the 1.0.0 spec, for example while migrating existing dashboards.
+   * (default: `"1.0.0"`)
+   */
+  specVersion?: AutometricsSpecVersion;
+
+  /**
+   * A prefix for the names of all metrics, including `build_info`. For example,
+   * with a namespace of `"myapp"`, calls are counted in the
+   * `myapp_function_calls_total` metric in Prometheus.
+   *
+   * The namespace must be a valid Prometheus metric name: letters, digits,
+   * underscores and colons, not starting with a digit. An invalid namespace is
+   * ignored with a warning.
+   */
+  namespace?: string;
+
+  /**
+   * The name of the service, which is used as the `service.name` attribute of
+   * the OpenTelemetry resource and as the `service_name` label of the
+   * `build_info` metric.
+   *
+   * If not set, the name is read from the `OTEL_SERVICE_NAME` or
+   * `OTEL_RESOURCE_ATTRIBUTES` environment variables.
+   */
+  serviceName?: string;
+
+  /**
+   * Additional attributes of the OpenTelemetry resource that the metrics are
+   * associated with, such as `service.version` or `deployment.environment`.
+   *
+   * These are merged with (and take precedence over) the attributes from the
+   * `OTEL_RESOURCE_ATTRIBUTES` environment variable.
+   */
+  resource?: Attributes;
+
+  /**
+   * The bucket boundaries of the histograms, in seconds. Functions can add
+   * boundaries to those of all functions through the
+   * `additionalHistogramBuckets` option.
+   *
+   * Make sure the latency thresholds of your objectives are included in the
+   * boundaries. (default: `[0, 0.005, 0.01, 0.025, 0.05, 0.075, 0.1, 0.25,
+   * 0.5, 0.75, 1, 2.5, 5, 7.5, 10]`)
+   */
+  histogramBuckets?: Array<number>;
+};
+
+const settings: AutometricsSettings = {};
+
+const NAMESPACE_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+/**
+ * Updates the global Autometrics settings.
+ *
+ * Settings affect the labels of recorded metrics, so they should be set as
+ * early as possible: preferably before any of the instrumented functions is
+ * called. The `specVersion`, `namespace`, `serviceName`, `resource` and
+ * `histogramBuckets` settings must be set before the exporter is registered.
+ *
+ * @group Initialization API
+ */
+export function configure(newSettings: AutometricsSettings) {
+  const { namespace } = newSettings;
+  const isValidNamespace =
+    namespace === undefined || NAMESPACE_PATTERN.test(namespace);
+  if (!isValidNamespace) {
+    warn(
+      `Ignoring the namespace "${namespace}", as it is not a valid prefix for metric names. It may only contain letters, digits, underscores and colons, and must not start with a digit.`,
+    );
+  }
+
+  const filteredSettings: AutometricsSettings = Object.fromEntries(
+    Object.entries(newSettings).filter(
+      ([key, value]) =>
+        value !== undefined && (key !== "namespace" || isValidNamespace),
+    ),
+  );
+  Object.assign(settings, filteredSettings);
+}
+
+/**
+ * Returns the current global Autometrics settings.
+ *
+ * @internal
+ */
+export function getSettings(): Readonly<AutometricsSettings> {
+  return settings;
+}
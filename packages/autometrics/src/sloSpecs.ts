@@ -0,0 +1,298 @@
+import { COUNTER_NAME, HISTOGRAM_NAME } from "./constants";
+import {
+  ObjectiveTarget,
+  formatSelector,
+  getObjectiveTargets,
+  getPrometheusName,
+  roundRatio,
+} from "./objectiveTargets";
+import { Objective } from "./objectives";
+import { getServiceName } from "./resource";
+import {
+  ErrorRatioOptions,
+  ResultMatchers,
+  getResultMatchers,
+} from "./results";
+import { YamlValue, formatYaml } from "./yaml";
+
+/**
+ * An objective, together with a function that uses it.
+ *
+ * @group Service Level Objective API
+ */
+export type ObjectiveUsage = {
+  objective: Objective;
+
+  /**
+   * Name of the function that uses the objective, as it appears in the
+   * metrics.
+   */
+  functionName?: string;
+};
+
+/**
+ * Options for {@link generateOpenSlo} and {@link generateSlothSpec}.
+ *
+ * @group Service Level Objective API
+ */
+export type SloSpecOptions = ErrorRatioOptions & {
+  /**
+   * The service the SLOs belong to. (default: the name of the service, as
+   * configured using the `serviceName` setting)
+   */
+  service?: string;
+
+  /**
+   * The rolling window over which the OpenSLO objectives are evaluated. Sloth
+   * configures its window in Sloth itself. (default: `"28d"`)
+   */
+  timeWindow?: string;
+};
+
+/**
+ * The functions that use each objective, by the name of the objective.
+ */
+type FunctionsByObjective = Map<string, Array<string>>;
+
+/**
+ * Generates OpenSLO `SLO` specs for the given objectives, as a multi-document
+ * YAML string. Every success rate and latency target of an objective becomes an
+ * SLO, with a ratio metric that counts the calls not meeting the target based
+ * on the `function.calls` counter or the `function.calls.duration` histogram.
+ *
+ * Throws if any of the objectives has an invalid percentile or threshold.
+ *
+ * See: https://github.com/OpenSLO/OpenSLO
+ *
+ * @param usages {Array<ObjectiveUsage>} - the objectives and the functions that
+ * use them
+ * @param options {SloSpecOptions}
+ *
+ * @group Service Level Objective API
+ */
+export function generateOpenSlo(
+  usages: Array<ObjectiveUsage>,
+  {
+    service = getServiceName(),
+    timeWindow = "28d",
+    ...errorRatioOptions
+  }: SloSpecOptions = {},
+): string {
+  const functionsByObjective = getFunctionsByObjective(usages);
+  const resultMatchers = getResultMatchers(errorRatioOptions);
+
+  return getTargets(usages)
+    .map((target) => {
+      const name = getSloName(target);
+      const queries = getSliQueries(target, resultMatchers, "");
+
+      return formatYaml({
+        apiVersion: "openslo/v1",
+        kind: "SLO",
+        metadata: {
+          name,
+          displayName: getDisplayName(target),
+          annotations: getAnnotations(target, functionsByObjective),
+        },
+        spec: {
+          description: getDescription(target, functionsByObjective),
+          service,
+          indicator: {
+            metadata: { name },
+            spec: {
+              ratioMetric: {
+                counter: true,
+                bad: getMetricSource(queries.errors),
+                total: getMetricSource(queries.total),
+              },
+            },
+          },
+          timeWindow: [{ duration: timeWindow, isRolling: true }],
+          budgetingMethod: "Occurrences",
+          objectives: [
+            {
+              displayName: getDisplayName(target),
+              target: roundRatio(Number(target.percentile) / 100),
+            },
+          ],
+        },
+      });
+    })
+    .join("---\n");
+}
+
+/**
+ * Generates a Sloth spec for the given objectives, as a YAML string. Every
+ * success rate and latency target of an objective becomes an SLO, with event
+ * queries based on the `function.calls` counter or the `function.calls.duration`
+ * histogram, and page and ticket alerts.
+ *
+ * Throws if any of the objectives has an invalid percentile or threshold.
+ *
+ * See: https://sloth.dev/specs/default/
+ *
+ * @param usages {Array<ObjectiveUsage>} - the objectives and the functions that
+ * use them
+ * @param options {SloSpecOptions}
+ *
+ * @group Service Level Objective API
+ */
+export function generateSlothSpec(
+  usages: Array<ObjectiveUsage>,
+  { service = getServiceName(), ...errorRatioOptions }: SloSpecOptions = {},
+): string {
+  const functionsByObjective = getFunctionsByObjective(usages);
+  const resultMatchers = getResultMatchers(errorRatioOptions);
+
+  return formatYaml({
+    version: "prometheus/v1",
+    service,
+    slos: getTargets(usages).map((target) => {
+      const queries = getSliQueries(target, resultMatchers, "[{{.window}}]");
+
+      return {
+        name: getSloName(target),
+        objective: Number(target.percentile),
+        description: getDescription(target, functionsByObjective),
+        labels: target.labels,
+        sli: {
+          events: {
+            error_query: queries.errors,
+            total_query: queries.total,
+          },
+        },
+        alerting: {
+          name: target.type === "latency" ? "HighLatency" : "HighErrorRate",
+          labels: target.labels,
+          annotations: { summary: getDisplayName(target) },
+          page_alert: { labels: { severity: "page" } },
+          ticket_alert: { labels: { severity: "ticket" } },
+        },
+      };
+    }),
+  });
+}
+
+function getTargets(usages: Array<ObjectiveUsage>): Array<ObjectiveTarget> {
+  return getObjectiveTargets(usages.map(({ objective }) => objective));
+}
+
+function getFunctionsByObjective(
+  usages: Array<ObjectiveUsage>,
+): FunctionsByObjective {
+  const functionsByObjective: FunctionsByObjective = new Map();
+  for (const { objective, functionName } of usages) {
+    const functions = functionsByObjective.get(objective.name) ?? [];
+    if (functionName && !functions.includes(functionName)) {
+      functions.push(functionName);
+    }
+    functionsByObjective.set(objective.name, functions);
+  }
+
+  return functionsByObjective;
+}
+
+/**
+ * Returns the queries for the calls that do not meet the target and for all
+ * calls. The range is appended to the selectors, to turn counters into rates.
+ */
+function getSliQueries(
+  target: ObjectiveTarget,
+  resultMatchers: ResultMatchers,
+  range: string,
+): { errors: string; total: string } {
+  const aggregate = (metric: string, selector: string) =>
+    range
+      ? `sum(rate(${metric}${selector}${range}))`
+      : `sum(${metric}${selector})`;
+
+  if (target.type === "latency") {
+    const histogramName = getPrometheusName(HISTOGRAM_NAME);
+    const total = aggregate(
+      `${histogramName}_count`,
+      formatSelector(target.selector),
+    );
+    const withinThreshold = aggregate(
+      `${histogramName}_bucket`,
+      formatSelector({ ...target.selector, le: target.threshold ?? "" }),
+    );
+
+    return { errors: `${total}\n-\n${withinThreshold}`, total };
+  }
+
+  const counterName = `${getPrometheusName(COUNTER_NAME)}_total`;
+  return {
+    errors: aggregate(
+      counterName,
+      formatSelector(target.selector, resultMatchers.errors),
+    ),
+    total: aggregate(
+      counterName,
+      formatSelector(target.selector, resultMatchers.total),
+    ),
+  };
+}
+
+function getMetricSource(query: string): YamlValue {
+  return { metricSource: { type: "Prometheus", spec: { query } } };
+}
+
+/**
+ * Returns a name for the SLO of a target, which is valid both as an OpenSLO
+ * name and as a Sloth name, such as `api-latency-p99-250ms`.
+ */
+function getSloName({
+  type,
+  name,
+  percentile,
+  threshold,
+}: ObjectiveTarget): string {
+  const sloName =
+    type === "latency"
+      ? `${name}-latency-p${percentile}-${roundRatio(
+          Number(threshold) * 1000,
+        )}ms`
+      : `${name}-success-rate`;
+
+  return sloName
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function getDisplayName({
+  type,
+  name,
+  percentile,
+  threshold,
+}: ObjectiveTarget): string {
+  return type === "latency"
+    ? `${name}: ${percentile}% of the calls complete within ${threshold}s`
+    : `${name}: ${percentile}% of the calls succeed`;
+}
+
+function getDescription(
+  target: ObjectiveTarget,
+  functionsByObjective: FunctionsByObjective,
+): string {
+  const functions = functionsByObjective.get(target.name) ?? [];
+  const description = `Autometrics objective ${target.name}`;
+
+  return functions.length > 0
+    ? `${description}, used by ${functions.join(", ")}`
+    : description;
+}
+
+function getAnnotations(
+  target: ObjectiveTarget,
+  functionsByObjective: FunctionsByObjective,
+): Record<string, string> {
+  const functions = functionsByObjective.get(target.name) ?? [];
+
+  return {
+    "autometrics.dev/objective": target.name,
+    ...(functions.length > 0 && {
+      "autometrics.dev/functions": functions.join(","),
+    }),
+  };
+}
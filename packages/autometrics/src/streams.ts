@@ -0,0 +1,204 @@
+/**
+ * Callbacks that are invoked while a stream that was returned from an
+ * instrumented function is being consumed.
+ *
+ * @internal
+ */
+export type StreamCallbacks = {
+  /**
+   * Called when the first chunk of data is read from the stream.
+   */
+  onFirstChunk?: () => void;
+
+  /**
+   * Called when the stream has ended.
+   */
+  onEnd: () => void;
+
+  /**
+   * Called when the stream was cancelled (or destroyed) by the consumer before
+   * it ended.
+   */
+  onCancel: () => void;
+
+  /**
+   * Called when the stream errors.
+   */
+  onError: (error: unknown) => void;
+};
+
+/**
+ * The subset of the Node.js `Readable` interface that we rely on. We avoid
+ * importing `node:stream` so this module remains usable in other runtimes.
+ */
+type NodeReadable = {
+  errored?: unknown;
+  once(event: string, listener: () => void): unknown;
+  pipe(...args: Array<unknown>): unknown;
+  read(...args: Array<unknown>): unknown;
+};
+
+function isReadableStream(value: unknown): value is ReadableStream {
+  return (
+    typeof ReadableStream !== "undefined" && value instanceof ReadableStream
+  );
+}
+
+function isResponseWithBody(
+  value: unknown,
+): value is Response & { body: ReadableStream } {
+  return (
+    typeof Response !== "undefined" &&
+    value instanceof Response &&
+    value.body !== null
+  );
+}
+
+function isNodeReadable(value: unknown): value is NodeReadable {
+  return (
+    typeof value === "object" &&
+    value != null &&
+    "pipe" in value &&
+    typeof value.pipe === "function" &&
+    "read" in value &&
+    typeof value.read === "function" &&
+    "once" in value &&
+    typeof value.once === "function"
+  );
+}
+
+/**
+ * Checks whether the value is a stream we know how to measure: a web
+ * `ReadableStream`, a `Response` with a body, or a Node.js `Readable`.
+ *
+ * @internal
+ */
+export function isStream(value: unknown): boolean {
+  return (
+    isReadableStream(value) ||
+    isResponseWithBody(value) ||
+    isNodeReadable(value)
+  );
+}
+
+/**
+ * Instruments the given stream, so that the callbacks are invoked while the
+ * stream is being consumed.
+ *
+ * Web streams cannot be observed without consuming them, so for those (and
+ * for `Response` objects) a new stream is returned that passes through all
+ * chunks of the original. Node.js streams are instrumented in place.
+ *
+ * The new `Response` keeps the `url`, `redirected` and `type` of the original,
+ * which cannot be passed to the `Response` constructor.
+ *
+ * @internal
+ */
+export function instrumentStream<T>(value: T, callbacks: StreamCallbacks): T {
+  if (isResponseWithBody(value)) {
+    const { headers, status, statusText } = value;
+    const body = instrumentReadableStream(value.body, callbacks);
+    const response = new Response(body, { headers, status, statusText });
+    for (const key of ["url", "redirected", "type"] as const) {
+      Object.defineProperty(response, key, { value: value[key] });
+    }
+    return response as T;
+  }
+
+  if (isReadableStream(value)) {
+    return instrumentReadableStream(value, callbacks) as T;
+  }
+
+  if (isNodeReadable(value)) {
+    instrumentNodeReadable(value, callbacks);
+  }
+
+  return value;
+}
+
+function instrumentReadableStream<R>(
+  stream: ReadableStream<R>,
+  { onFirstChunk, onEnd, onCancel, onError }: StreamCallbacks,
+): ReadableStream<R> {
+  const reader = stream.getReader();
+  let hasReceivedChunk = false;
+
+  // A high water mark of zero avoids buffering on our end: chunks are only
+  // pulled from the original stream when the consumer asks for them.
+  return new ReadableStream<R>(
+    {
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+            onEnd();
+            return;
+          }
+
+          if (!hasReceivedChunk) {
+            hasReceivedChunk = true;
+            onFirstChunk?.();
+          }
+
+          controller.enqueue(value);
+        } catch (error) {
+          controller.error(error);
+          onError(error);
+        }
+      },
+
+      cancel(reason) {
+        onCancel();
+        return reader.cancel(reason);
+      },
+    },
+    { highWaterMark: 0 },
+  );
+}
+
+function instrumentNodeReadable(
+  stream: NodeReadable,
+  { onFirstChunk, onEnd, onCancel, onError }: StreamCallbacks,
+) {
+  let hasFinished = false;
+
+  // Both flowing mode and async iteration pull their data through `read()`,
+  // so we can detect the first chunk without attaching a `data` listener
+  // (which would switch the stream into flowing mode).
+  const read = stream.read;
+  if (onFirstChunk) {
+    stream.read = function (...args) {
+      const chunk = read.apply(this, args);
+      if (chunk != null) {
+        stream.read = read;
+        onFirstChunk();
+      }
+      return chunk;
+    };
+  }
+
+  const finish = (callback: () => void) => {
+    if (!hasFinished) {
+      hasFinished = true;
+      callback();
+    }
+  };
+
+  // We don't listen to the `error` event, since that would prevent unhandled
+  // stream errors from being thrown. Streams are destroyed after an error, so
+  // we can inspect the `errored` property when the stream closes instead.
+  // A stream that closes without ending, or with an `AbortError` (as happens
+  // when breaking out of a `for await` loop), was destroyed by the consumer.
+  stream.once("end", () => finish(onEnd));
+  stream.once("close", () =>
+    finish(() => {
+      const error = stream.errored;
+      if (!error || (error instanceof Error && error.name === "AbortError")) {
+        onCancel();
+      } else {
+        onError(error);
+      }
+    }),
+  );
+}
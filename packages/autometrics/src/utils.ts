@@ -17,6 +17,27 @@ export function getRuntime(): Runtime {
   return "unknown";
 }
 
+/**
+ * Returns the value of an environment variable, or `undefined` if it's not set
+ * or the runtime doesn't provide access to environment variables.
+ */
+export function getEnvironmentVariable(name: string): string | undefined {
+  const runtime = getRuntime();
+  if (runtime === "node") {
+    return process.env[name];
+  }
+
+  if (runtime === "deno") {
+    try {
+      //@ts-ignore
+      return Deno.env.get(name);
+    } catch (_) {
+      // Deno throws if the `--allow-env` permission was not granted
+      return undefined;
+    }
+  }
+}
+
 // HACK: this entire function is a hacky way to acquire the module name for a
 // given function e.g.: dist/index.js
 export function getModulePath(): string | undefined {
@@ -40,8 +61,9 @@ export function getModulePath(): string | undefined {
     }
 
     /**
-     * Finds the original wrapped function, first it checks if it's a decorator,
-     * and returns that filename or gets the 3th item of the stack trace:
+     * Finds the original wrapped function, first it checks if it's a decorator
+     * (either a legacy `__decorate` or a standard `__esDecorate` call), and
+     * returns that filename or gets the 3th item of the stack trace:
      *
      * 0: Error
      * 1: at getModulePath ...
@@ -51,6 +73,7 @@ export function getModulePath(): string | undefined {
     wrappedFunctionPath =
       stack.find((call) => {
         if (call.name?.includes("__decorate")) return true;
+        if (call.name?.includes("__esDecorate")) return true;
       })?.file ?? stack[2]?.file;
   } else {
     const stack = new Error().stack?.split("\n");
@@ -111,21 +134,31 @@ export function getModulePath(): string | undefined {
   return wrappedFunctionPath;
 }
 
-type ALSContext = {
-  caller?: string;
-};
-
-export type ALSInstance = Awaited<ReturnType<typeof getALSInstance>>;
+/**
+ * Finds the `AbortSignal` in the arguments of a function call, if any. The
+ * signal may be passed directly, or as the `signal` property of an argument
+ * (such as an options object, or a `Request`).
+ */
+export function findAbortSignal(
+  params: Array<unknown>,
+): AbortSignal | undefined {
+  if (typeof AbortSignal === "undefined") {
+    return;
+  }
 
-export async function getALSInstance() {
-  const { AsyncLocalStorage } = await import("node:async_hooks");
-  return new AsyncLocalStorage<ALSContext>();
-}
+  for (const param of params) {
+    if (param instanceof AbortSignal) {
+      return param;
+    }
 
-export function getALSCaller(context?: ALSInstance) {
-  if (context) {
-    const contextValue = context.getStore();
-    return contextValue?.caller;
+    if (
+      typeof param === "object" &&
+      param != null &&
+      "signal" in param &&
+      param.signal instanceof AbortSignal
+    ) {
+      return param.signal;
+    }
   }
 }
 
@@ -140,6 +173,29 @@ export function isPromise(value: unknown): value is Promise<unknown> {
   );
 }
 
+/**
+ * Checks whether a value is a generator object, as returned by a generator
+ * function. Other iterators, such as the ones returned by `Array.values()`, are
+ * not generators.
+ */
+export function isGenerator(value: unknown): value is Generator {
+  return getToStringTag(value) === "Generator";
+}
+
+/**
+ * Checks whether a value is an async generator object, as returned by an async
+ * generator function.
+ */
+export function isAsyncGenerator(value: unknown): value is AsyncGenerator {
+  return getToStringTag(value) === "AsyncGenerator";
+}
+
+function getToStringTag(value: unknown): unknown {
+  return typeof value === "object" && value != null
+    ? (value as { [Symbol.toStringTag]?: unknown })[Symbol.toStringTag]
+    : undefined;
+}
+
 export function isFunction(value: unknown): value is Function {
   return typeof value === "function";
 }
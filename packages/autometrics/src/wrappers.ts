@@ -1,33 +1,40 @@
-import { Attributes, ValueType } from "@opentelemetry/api";
+import { Attributes } from "@opentelemetry/api";
 
+import { createCallAttributesResolver } from "./attributes";
 import {
-  COUNTER_DESCRIPTION,
-  COUNTER_NAME,
-  GAUGE_DESCRIPTION,
-  GAUGE_NAME,
-  HISTOGRAM_DESCRIPTION,
-  HISTOGRAM_NAME,
-} from "./constants";
-import { getMeter, metricsRecorded } from "./instrumentation";
+  ConcurrencyLimitError,
+  ConcurrencyTracker,
+  createConcurrencyLimiter,
+  createConcurrencyTracker,
+} from "./concurrency";
+import { getContextManager, warnIfContextManagerIsLoading } from "./context";
+import { createEnabledCheck } from "./controls";
+import { ErrorClassifier, createErrorKindLimiter } from "./errorKinds";
+import { addHistogramBuckets, checkObjectiveLatencyBucket } from "./histograms";
+import { metricsRecorded } from "./instrumentation";
+import {
+  countCallLater,
+  getCounter,
+  getFirstChunkHistogram,
+  getHistogram,
+  getQueueWaitHistogram,
+} from "./instruments";
+import { CustomLabels, createLabelResolver } from "./labels";
 import { trace, warn } from "./logger";
-import type { Objective } from "./objectives";
+import { Objective, normalizeObjective } from "./objectives";
+import { registerInstrumentedFunction } from "./registry";
+import type { InterruptedResult } from "./results";
+import { instrumentStream, isStream } from "./streams";
 import {
-  ALSInstance,
-  getALSCaller,
-  getALSInstance,
+  findAbortSignal,
   getModulePath,
+  isAsyncGenerator,
   isFunction,
+  isGenerator,
   isObject,
   isPromise,
 } from "./utils";
 
-let asyncLocalStorage: ALSInstance | undefined;
-if (typeof window === "undefined") {
-  (async () => {
-    asyncLocalStorage = await getALSInstance();
-  })();
-}
-
 /**
  * Function Wrapper
  * This seems to be the preferred way for defining functions in TypeScript
@@ -44,7 +51,63 @@ type AnyFunction<T extends FunctionSig> = (
  * This type signals to the language service plugin that it should show extra
  * documentation along with the queries.
  */
-type AutometricsWrapper<T extends AnyFunction<T>> = AnyFunction<T>;
+type AutometricsWrapper<T extends AnyFunction<T>> = AnyFunction<T> &
+  Omit<T, never>;
+
+/**
+ * Maps instrumented functions to the original functions they wrap.
+ */
+const originalFunctions = new WeakMap<Function, Function>();
+
+/**
+ * Releases the concurrency trackers of instrumented functions that have been
+ * garbage collected, such as callbacks that are instrumented on every request.
+ */
+const concurrencyTrackers = new FinalizationRegistry<ConcurrencyTracker>(
+  (tracker) => tracker.release(),
+);
+
+/**
+ * Maps instrumented functions to the options they were instrumented with.
+ */
+const instrumentationOptions = new WeakMap<
+  Function,
+  AutometricsOptions<FunctionSig>
+>();
+
+/**
+ * Calls the given original function, and records the call using the
+ * instrumentation of an instrumented function.
+ */
+type InstrumentedCall<F extends FunctionSig> = (
+  original: F,
+  thisArg: unknown,
+  newTarget: Function | undefined,
+  params: Parameters<F>,
+) => ReturnType<F>;
+
+/**
+ * Maps instrumented functions to the calls of their instrumentation.
+ */
+const instrumentedCalls = new WeakMap<
+  Function,
+  InstrumentedCall<FunctionSig>
+>();
+
+/**
+ * The possible values of the `result` label on the `function.calls` counter.
+ *
+ * - `"ok"`: the function returned (or resolved) successfully.
+ * - `"error"`: the function threw (or rejected).
+ * - `"cancelled"`: an `AbortSignal` that was passed to the function fired
+ *   before the function finished.
+ * - `"timeout"`: the function did not finish within the configured `timeout`.
+ * - `"rejected"`: the call exceeded the configured `maxConcurrency` and could
+ *   not be queued.
+ *
+ * @group Wrapper and Decorator API
+ */
+export type CallResult = "ok" | "error" | InterruptedResult;
 
 /**
  * @group Wrapper and Decorator API
@@ -64,6 +127,33 @@ export type AutometricsOptions<F extends FunctionSig> = {
    */
   moduleName?: string;
 
+  /**
+   * Custom labels to add to the `function.calls`, `function.calls.duration`
+   * and `function.calls.time_to_first_chunk` metrics of this function. This
+   * can be either a static set of labels, or a callback that derives the
+   * labels from the arguments of each call.
+   *
+   * @example
+   * ```typescript
+   * const handler = autometrics(
+   *   { labels: (req: Request) => ({ method: req.method }) },
+   *   async function handler(req: Request) {
+   *     // ...
+   *   },
+   * );
+   * ```
+   */
+  labels?: CustomLabels<Parameters<F>>;
+
+  /**
+   * The maximum number of distinct label sets the `labels` callback may
+   * produce for this function. Once the limit is reached, calls with new label
+   * sets are recorded with an `otel_metric_overflow="true"` label instead of
+   * their custom labels. The limit applies to all wrappers of a function with
+   * the same name and module. (default: `100`)
+   */
+  maxLabelSets?: number;
+
   /**
    * Include this function's metrics in the specified objective or SLO.
    *
@@ -71,15 +161,93 @@ export type AutometricsOptions<F extends FunctionSig> = {
    */
   objective?: Objective;
 
+  /**
+   * Additional bucket boundaries for the histograms, in seconds, such as for
+   * functions that run for minutes or finish within microseconds.
+   *
+   * Note that these are not specific to the function: all functions share the
+   * same histograms, so the boundaries are added to the histograms of every
+   * function. Only add the boundaries you need. They can only be added for
+   * functions that are instrumented before the exporter is registered. To
+   * replace the default boundaries, use the `histogramBuckets` setting instead.
+   */
+  additionalHistogramBuckets?: Array<number>;
+
   /**
    * Pass this argument to track the number of concurrent calls to the function
    * (using a gauge).
    *
+   * The highest number of concurrent calls since the previous collection is
+   * tracked as well, in the `function.calls.concurrent.peak` gauge. This shows
+   * bursts that happen between two collections.
+   *
    * This may be most useful for top-level functions such as the main HTTP
    * handler that passes requests off to other functions. (default: `false`)
    */
   trackConcurrency?: boolean;
 
+  /**
+   * The maximum number of calls to the function that may run concurrently.
+   * Calls that exceed the limit wait in a queue (see `queue`) or, if the queue
+   * is full, are rejected with a {@link ConcurrencyLimitError} and recorded
+   * with `result="rejected"`. The time calls spend in the queue is recorded in
+   * the `function.calls.queue_wait_time` histogram.
+   *
+   * A call occupies its slot until it has finished (for functions that return
+   * a promise, until the promise settles). Calls that are queued or rejected
+   * always return a promise, so this is meant for async functions.
+   */
+  maxConcurrency?: number;
+
+  /**
+   * The maximum number of calls that may wait for a free slot when
+   * `maxConcurrency` is reached. Use `Infinity` for an unbounded queue.
+   * (default: `0`)
+   */
+  queue?: number;
+
+  /**
+   * The fraction of calls (between `0` and `1`) for which the duration is
+   * recorded in the `function.calls.duration` histogram (and the time to first
+   * chunk, if tracked). Every call is still counted in the `function.calls`
+   * counter, but calls that are not sampled are added to it in batches when
+   * the metrics are collected. This reduces the overhead for extremely hot
+   * functions, while latency percentiles remain representative. (default: `1`)
+   */
+  sampleRate?: number;
+
+  /**
+   * Pass this argument to measure functions that return a stream until the
+   * stream has ended, instead of until the function returns. Supported are
+   * web `ReadableStream`s, `Response` objects with a body, and Node.js
+   * `Readable` streams (also when returned through a promise).
+   *
+   * Errors in the stream are recorded as errors for the function, and streams
+   * that are cancelled by the consumer before they end are recorded with
+   * `result="cancelled"`. Web streams and `Response` objects are replaced by an
+   * equivalent that passes through the original data. (default: `false`)
+   */
+  measureStreams?: boolean;
+
+  /**
+   * Pass this argument together with `measureStreams` to also record the time
+   * until the returned stream yields its first chunk of data, using a separate
+   * histogram. This is useful for tracking the responsiveness of streaming
+   * handlers. (default: `false`)
+   */
+  trackTimeToFirstChunk?: boolean;
+
+  /**
+   * The time in milliseconds after which a call that has not finished yet is
+   * recorded with `result="timeout"`. The call itself is not interrupted, but
+   * its eventual outcome is no longer recorded.
+   *
+   * Similarly, if an `AbortSignal` is passed to the function (either directly,
+   * or as the `signal` property of an argument such as a `Request`), a call
+   * that is aborted before it finishes is recorded with `result="cancelled"`.
+   */
+  timeout?: number;
+
   /**
    * A custom callback function that determines whether a function return should
    * be considered an error by Autometrics. This may be most useful in
@@ -97,6 +265,14 @@ export type AutometricsOptions<F extends FunctionSig> = {
    *
    * app.post("/users", autometrics({ recordErrorIf }, createUser)
    * ```
+   *
+   * Instead of `true`, the callback may also return a string, which will be
+   * recorded as the kind of error in the `error_kind` label:
+   *
+   * ```typescript
+   * const recordErrorIf = (res) =>
+   *   res.status >= 500 ? "upstream_5xx" : res.status >= 400 ? "validation" : false;
+   * ```
    */
   recordErrorIf?: ReportErrorCondition<F>;
 
@@ -105,27 +281,50 @@ export type AutometricsOptions<F extends FunctionSig> = {
    * should be considered a success (regardless if it threw an error). This
    * may be most useful when you want to ignore certain errors that are thrown
    * by the function.
+   *
+   * If the callback returns a string, the error is recorded using the string
+   * as its kind in the `error_kind` label.
    */
   recordSuccessIf?: ReportSuccessCondition;
+
+  /**
+   * A custom callback function that determines the kind of error that was
+   * thrown, which is recorded in the `error_kind` label. Only used for thrown
+   * errors that didn't get a kind from `recordSuccessIf`.
+   *
+   * Use {@link errorNameClassifier} to classify errors by their constructor
+   * name.
+   */
+  classifyError?: ErrorClassifier;
+
+  /**
+   * The maximum number of distinct error kinds that may be recorded for this
+   * function, from any of `recordErrorIf`, `recordSuccessIf` and
+   * `classifyError`. Once the limit is reached, new error kinds are recorded
+   * as `error_kind="other"` instead. (default: `20`)
+   */
+  maxErrorKinds?: number;
 };
 
 /**
  * Callback type used for the `recordErrorIf` option.
  *
  * If this function returns `true`, the given function result will be reported
- * as a failure in your metrics.
+ * as a failure in your metrics. If it returns a string, the result will be
+ * reported as a failure of that kind.
  */
 export type ReportErrorCondition<F extends FunctionSig> = (
   result: Awaited<ReturnType<F>>,
-) => boolean;
+) => boolean | string;
 
 /**
  * Callback type used for the `recordSuccessIf` option.
  *
  * If this function returns `true`, the given error will still be reported as
- * a success in your metrics.
+ * a success in your metrics. If it returns a string, the error will be
+ * reported as a failure of that kind.
  */
-export type ReportSuccessCondition = (error: unknown) => boolean;
+export type ReportSuccessCondition = (error: unknown) => boolean | string;
 
 /**
  * Autometrics wrapper for **functions** (requests handlers or database methods)
@@ -197,9 +396,20 @@ export function autometrics<F extends FunctionSig>(
   let moduleName: string | undefined;
   let fn: F | undefined;
   let objective: Objective | undefined;
+  let additionalHistogramBuckets: Array<number> | undefined;
   let trackConcurrency = false;
+  let sampleRate = 1;
+  let maxConcurrency: number | undefined;
+  let queue = 0;
+  let measureStreams = false;
+  let trackTimeToFirstChunk = false;
+  let timeout: number | undefined;
   let recordErrorIf: ReportErrorCondition<F> | undefined;
   let recordSuccessIf: ReportSuccessCondition | undefined;
+  let classifyError: ErrorClassifier | undefined;
+  let maxErrorKinds: number | undefined;
+  let labels: CustomLabels<Parameters<F>> | undefined;
+  let maxLabelSets: number | undefined;
 
   const fnOrOptions = args[0];
   const maybeFn = args[1];
@@ -215,9 +425,20 @@ export function autometrics<F extends FunctionSig>(
     moduleName = options.moduleName ?? getModulePath();
 
     objective = options.objective;
+    additionalHistogramBuckets = options.additionalHistogramBuckets;
     trackConcurrency = options.trackConcurrency ?? false;
+    sampleRate = options.sampleRate ?? 1;
+    maxConcurrency = options.maxConcurrency;
+    queue = options.queue ?? 0;
+    measureStreams = options.measureStreams ?? false;
+    trackTimeToFirstChunk = options.trackTimeToFirstChunk ?? false;
+    timeout = options.timeout;
     recordErrorIf = options.recordErrorIf;
     recordSuccessIf = options.recordSuccessIf;
+    classifyError = options.classifyError;
+    maxErrorKinds = options.maxErrorKinds;
+    labels = options.labels;
+    maxLabelSets = options.maxLabelSets;
   }
 
   if (!functionName) {
@@ -227,6 +448,22 @@ export function autometrics<F extends FunctionSig>(
     return fn as F;
   }
 
+  const options = maybeFn ? (fnOrOptions as AutometricsOptions<F>) : {};
+  if (fn && isInstrumented(fn)) {
+    const previousOptions = instrumentationOptions.get(fn);
+    if (previousOptions && !haveSameOptions(previousOptions, options)) {
+      warn(
+        `Function ${functionName} is already instrumented with different options. It will not be instrumented again, so the new options are ignored. Pass the options to the first call of autometrics() instead.`,
+      );
+    } else {
+      trace(
+        `Function ${functionName} is already instrumented. It will not be instrumented again.`,
+      );
+    }
+
+    return fn as AutometricsWrapper<F>;
+  }
+
   // NOTE - Gravel Gateway will reject two metrics of the same name if one of
   //        them has a subset of the attributes of the other. This means to be
   //        able to support functions that have objectives, as well as functions
@@ -243,16 +480,28 @@ export function autometrics<F extends FunctionSig>(
     objective_percentile: "",
   };
 
+  if (additionalHistogramBuckets) {
+    addHistogramBuckets(functionName, additionalHistogramBuckets);
+  }
+
   if (objective) {
-    const { latency, name, successRate } = objective;
+    const { name, successRate, latency } = normalizeObjective(objective, warn);
 
     counterObjectiveAttributes.objective_name = name;
     histogramObjectiveAttributes.objective_name = name;
 
-    if (latency) {
-      const [threshold, latencyPercentile] = latency;
-      histogramObjectiveAttributes.objective_latency_threshold = threshold;
-      histogramObjectiveAttributes.objective_percentile = latencyPercentile;
+    for (const { threshold } of latency) {
+      checkObjectiveLatencyBucket(functionName, threshold);
+    }
+
+    // The duration is recorded once per call, so it can only be labeled with
+    // a single latency target. The targets of objectives with multiple targets
+    // are told apart by the `le` label of the buckets instead, in the rules
+    // generated by `generateRecordingRules()`.
+    if (latency.length === 1) {
+      histogramObjectiveAttributes.objective_latency_threshold =
+        latency[0].threshold;
+      histogramObjectiveAttributes.objective_percentile = latency[0].percentile;
     }
 
     if (successRate) {
@@ -260,95 +509,205 @@ export function autometrics<F extends FunctionSig>(
     }
   }
 
-  const meter = getMeter();
-  const counter = meter.createCounter(COUNTER_NAME, {
-    description: COUNTER_DESCRIPTION,
-    valueType: ValueType.INT,
-  });
-  const histogram = meter.createHistogram(HISTOGRAM_NAME, {
-    description: HISTOGRAM_DESCRIPTION,
-    unit: "seconds",
-  });
-  const concurrencyGauge = trackConcurrency
-    ? meter.createUpDownCounter(GAUGE_NAME, {
-        description: GAUGE_DESCRIPTION,
-        valueType: ValueType.INT,
-      })
-    : null;
-  const caller = getALSCaller(asyncLocalStorage);
+  if (!(sampleRate >= 0 && sampleRate <= 1)) {
+    warn(
+      `Function ${functionName} has an invalid sample rate of ${sampleRate}. The sample rate must be between 0 and 1, all calls will be sampled.`,
+    );
+    sampleRate = 1;
+  }
+
+  if (
+    maxConcurrency !== undefined &&
+    !(Number.isInteger(maxConcurrency) && maxConcurrency > 0)
+  ) {
+    warn(
+      `Function ${functionName} has an invalid maximum concurrency of ${maxConcurrency}. It must be a positive integer, concurrency will not be limited.`,
+    );
+    maxConcurrency = undefined;
+  }
 
-  counter.add(0, {
+  const resolveLabels = createLabelResolver(
+    labels,
+    functionName,
+    moduleName,
+    maxLabelSets,
+  );
+  const limitErrorKind = createErrorKindLimiter(
+    functionName,
+    moduleName,
+    maxErrorKinds,
+  );
+  const functionAttributes: Attributes = {
     function: functionName,
     module: moduleName,
-    result: "ok",
-    caller,
-    ...counterObjectiveAttributes,
-  });
+  };
+  const resolveCallAttributes = createCallAttributesResolver(
+    functionAttributes,
+    counterObjectiveAttributes,
+    histogramObjectiveAttributes,
+  );
 
-  return function (...params) {
-    const autometricsStart = performance.now();
-    concurrencyGauge?.add(1, {
-      function: functionName,
-      module: moduleName,
-    });
+  const counter = getCounter();
+  const histogram = getHistogram();
+  const firstChunkHistogram =
+    measureStreams && trackTimeToFirstChunk ? getFirstChunkHistogram() : null;
+  const concurrencyTracker = trackConcurrency
+    ? createConcurrencyTracker(functionAttributes)
+    : null;
+  const concurrencyLimiter =
+    maxConcurrency !== undefined
+      ? createConcurrencyLimiter(maxConcurrency, queue)
+      : null;
+  const queueWaitHistogram = concurrencyLimiter
+    ? getQueueWaitHistogram()
+    : null;
+  const context = { callerFunction: functionName, callerModule: moduleName };
+  const runInContext = <T>(callback: () => T): T =>
+    getContextManager().with(context, callback);
+  const isEnabled = createEnabledCheck(functionName, moduleName);
 
-    const onSuccess = () => {
-      const autometricsDuration = (performance.now() - autometricsStart) / 1000;
+  registerInstrumentedFunction(
+    { name: functionName, module: moduleName, objective, trackConcurrency },
+    fn as F,
+  );
 
-      counter.add(1, {
-        function: functionName,
-        module: moduleName,
-        result: "ok",
-        caller,
-        ...counterObjectiveAttributes,
-      });
+  // The labels derived from arguments are not known yet, and a series without
+  // them would have different keys than the series of the calls.
+  if (typeof labels !== "function") {
+    counter.add(
+      0,
+      resolveCallAttributes(
+        getContextManager().active(),
+        resolveLabels(),
+      ).counter("ok", ""),
+    );
+  }
 
-      histogram.record(autometricsDuration, {
-        function: functionName,
-        module: moduleName,
-        caller,
-        ...histogramObjectiveAttributes,
-      });
+  const callInstrumented: InstrumentedCall<F> = (
+    original,
+    thisArg,
+    newTarget,
+    params,
+  ) => {
+    const callOriginal = (): ReturnType<F> =>
+      newTarget
+        ? Reflect.construct(original, params, newTarget)
+        : original.apply(thisArg, params);
 
-      concurrencyGauge?.add(-1, {
-        function: functionName,
-        module: moduleName,
-      });
+    // Calls to disabled functions are passed through directly, unless their
+    // concurrency is limited: the limit still applies, only the metrics are
+    // not recorded.
+    const isRecording = isEnabled();
+    if (!(isRecording || concurrencyLimiter)) {
+      return callOriginal();
+    }
+
+    warnIfContextManagerIsLoading();
+
+    const isSampled =
+      isRecording && (sampleRate === 1 || Math.random() < sampleRate);
+    const autometricsStart = isSampled ? performance.now() : 0;
 
-      metricsRecorded();
+    const callAttributes = resolveCallAttributes(
+      getContextManager().active(),
+      resolveLabels(params),
+    );
+
+    let isRecorded = false;
+    let isStarted = false;
+    let hasSlot = false;
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+    const signal = findAbortSignal(params);
+    const onAbort = () => onError("cancelled");
+
+    // Calls may be recorded early because of a timeout or cancellation, in
+    // which case the eventual outcome should be ignored.
+    const markRecorded = (): boolean => {
+      if (isRecorded) {
+        return false;
+      }
+
+      isRecorded = true;
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
+      }
+      signal?.removeEventListener("abort", onAbort);
+      return true;
     };
 
-    const onError = () => {
-      const autometricsDuration = (performance.now() - autometricsStart) / 1000;
+    // Calls that are not sampled are counted in batches, which saves the work
+    // of adding them to the counter one by one.
+    const countCall = (attributes: Attributes) => {
+      if (isSampled) {
+        counter.add(1, attributes);
+      } else if (isRecording) {
+        countCallLater(attributes);
+      }
+    };
 
-      counter.add(1, {
-        function: functionName,
-        module: moduleName,
-        result: "error",
-        caller,
-        ...counterObjectiveAttributes,
-      });
+    const notifyRecorded = () => {
+      if (isRecording) {
+        metricsRecorded();
+      }
+    };
 
-      histogram.record(autometricsDuration, {
-        function: functionName,
-        module: moduleName,
-        caller,
-        ...histogramObjectiveAttributes,
-      });
+    const recordDuration = () => {
+      if (isSampled) {
+        const autometricsDuration =
+          (performance.now() - autometricsStart) / 1000;
+        histogram.record(autometricsDuration, callAttributes.histogram);
+      }
+    };
 
-      concurrencyGauge?.add(-1, {
-        function: functionName,
-        module: moduleName,
-        caller,
-      });
+    const onSuccess = () => {
+      if (!markRecorded()) {
+        return;
+      }
+
+      countCall(callAttributes.counter("ok", ""));
+      recordDuration();
+      notifyRecorded();
+    };
+
+    const onError = (result: CallResult = "error", errorKind = "") => {
+      if (!markRecorded()) {
+        return;
+      }
+
+      countCall(callAttributes.counter(result, limitErrorKind(errorKind)));
+      recordDuration();
+      notifyRecorded();
+    };
+
+    const onRejected = () => {
+      if (!markRecorded()) {
+        return;
+      }
+
+      countCall(callAttributes.counter("rejected", ""));
+      notifyRecorded();
+    };
+
+    // The slot is held, and the call is counted as concurrent, until the call
+    // has actually finished, even if it was recorded early.
+    const finishCall = () => {
+      if (isStarted) {
+        isStarted = false;
+        concurrencyTracker?.decrement();
+      }
 
-      metricsRecorded();
+      if (hasSlot) {
+        hasSlot = false;
+        concurrencyLimiter?.release();
+      }
     };
 
     const recordSuccess = (returnValue: Awaited<ReturnType<F>>) => {
+      finishCall();
       try {
-        if (recordErrorIf?.(returnValue)) {
-          onError();
+        const errorKind = recordErrorIf?.(returnValue);
+        if (errorKind) {
+          onError("error", typeof errorKind === "string" ? errorKind : "");
         } else {
           onSuccess();
         }
@@ -358,26 +717,78 @@ export function autometrics<F extends FunctionSig>(
       }
     };
 
+    const classify = (error: unknown) => {
+      try {
+        return classifyError?.(error) ?? "";
+      } catch (callbackError) {
+        trace("Error in classifyError function: ", callbackError);
+        return "";
+      }
+    };
+
     const recordError = (error: unknown) => {
+      finishCall();
       try {
-        if (recordSuccessIf?.(error)) {
+        const isSuccessOrErrorKind = recordSuccessIf?.(error);
+        if (isSuccessOrErrorKind === true) {
           onSuccess();
+        } else if (typeof isSuccessOrErrorKind === "string") {
+          onError("error", isSuccessOrErrorKind);
         } else {
-          onError();
+          onError("error", classify(error));
         }
       } catch (callbackError) {
-        onError();
+        onError("error", classify(error));
         trace("Error in recordSuccessIf function: ", callbackError);
       }
     };
 
-    function instrumentedFn() {
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort);
+    }
+
+    if (timeout !== undefined) {
+      timeoutTimer = setTimeout(() => onError("timeout"), timeout);
+    }
+
+    const recordFirstChunk = () => {
+      const autometricsDuration = (performance.now() - autometricsStart) / 1000;
+
+      firstChunkHistogram?.record(
+        autometricsDuration,
+        callAttributes.firstChunk,
+      );
+    };
+
+    const measureStream = <T>(stream: T): T =>
+      instrumentStream(stream, {
+        onFirstChunk:
+          firstChunkHistogram && isSampled ? recordFirstChunk : undefined,
+        onEnd: () => recordSuccess(stream as Awaited<ReturnType<F>>),
+        onCancel: () => {
+          finishCall();
+          onError("cancelled");
+        },
+        onError: recordError,
+      });
+
+    const instrumentedFn = () => {
+      if (!isRecorded && isRecording) {
+        isStarted = true;
+        concurrencyTracker?.increment();
+      }
+
       try {
-        // @ts-ignore
-        const returnValue: ReturnType<F> = fn.apply(this, params);
+        const returnValue = callOriginal();
         if (isPromise(returnValue)) {
           return returnValue
             .then((result: Awaited<typeof returnValue>) => {
+              if (measureStreams && isStream(result)) {
+                return measureStream(result);
+              }
+
               recordSuccess(result);
               return result;
             })
@@ -387,30 +798,532 @@ export function autometrics<F extends FunctionSig>(
             });
         }
 
-        // @ts-ignore
-        recordSuccess(returnValue);
+        if (measureStreams && isStream(returnValue)) {
+          return measureStream(returnValue);
+        }
+
+        // Generators only finish once they have been fully consumed, so we
+        // defer recording until that moment.
+        if (isAsyncGenerator(returnValue)) {
+          return instrumentAsyncGenerator(
+            returnValue,
+            runInContext,
+            () => recordSuccess(returnValue as Awaited<ReturnType<F>>),
+            recordError,
+          );
+        }
+
+        if (isGenerator(returnValue)) {
+          return instrumentGenerator(
+            returnValue,
+            runInContext,
+            () => recordSuccess(returnValue as Awaited<ReturnType<F>>),
+            recordError,
+          );
+        }
+
+        recordSuccess(returnValue as Awaited<ReturnType<F>>);
         return returnValue;
       } catch (error) {
         recordError(error);
         throw error;
       }
+    };
+
+    if (!concurrencyLimiter) {
+      return runInContext(instrumentedFn);
     }
 
-    if (asyncLocalStorage) {
-      return asyncLocalStorage.run({ caller: functionName }, instrumentedFn);
+    if (concurrencyLimiter.tryAcquire()) {
+      hasSlot = true;
+      return runInContext(instrumentedFn);
     }
 
-    return instrumentedFn();
+    const queueStart = performance.now();
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbortWhileQueued = () => {
+        removeFromQueue?.();
+        reject(signal?.reason);
+      };
+
+      const removeFromQueue = concurrencyLimiter.enqueue(() => {
+        hasSlot = true;
+        signal?.removeEventListener("abort", onAbortWhileQueued);
+        if (isRecording) {
+          queueWaitHistogram?.record(
+            (performance.now() - queueStart) / 1000,
+            functionAttributes,
+          );
+        }
+
+        try {
+          resolve(runInContext(instrumentedFn));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      if (!removeFromQueue) {
+        onRejected();
+        reject(
+          new ConcurrencyLimitError(
+            functionName as string,
+            maxConcurrency as number,
+          ),
+        );
+        return;
+      }
+
+      signal?.addEventListener("abort", onAbortWhileQueued);
+    });
+  };
+
+  const instrumentedFunction = function (
+    this: unknown,
+    ...params: Parameters<F>
+  ) {
+    return callInstrumented(fn as F, this, new.target, params);
   };
+
+  copyFunctionProperties(instrumentedFunction, fn as F);
+  originalFunctions.set(instrumentedFunction, fn as F);
+  instrumentationOptions.set(instrumentedFunction, options);
+  if (concurrencyTracker) {
+    concurrencyTrackers.register(instrumentedFunction, concurrencyTracker);
+  }
+  instrumentedCalls.set(
+    instrumentedFunction,
+    callInstrumented as InstrumentedCall<FunctionSig>,
+  );
+
+  return instrumentedFunction as AutometricsWrapper<F>;
 }
 
 /**
+ * Instruments a function using the instrumentation of a function that was
+ * instrumented before, so the calls of both are recorded as calls to the same
+ * function.
+ *
+ * This is used for functions that are created for every instance of a class,
+ * such as arrow functions in class fields, which would otherwise set up the
+ * same instrumentation again for every instance.
+ *
  * @internal
  */
+export function reuseInstrumentation<F extends FunctionSig>(
+  instrumented: AutometricsWrapper<F>,
+  fn: F,
+): AutometricsWrapper<F> {
+  const callInstrumented = instrumentedCalls.get(instrumented);
+  if (!callInstrumented || isInstrumented(fn)) {
+    return fn as AutometricsWrapper<F>;
+  }
+
+  const instrumentedFunction = function (
+    this: unknown,
+    ...params: Parameters<F>
+  ) {
+    return callInstrumented(fn, this, new.target, params);
+  };
+
+  copyFunctionProperties(instrumentedFunction, fn);
+  originalFunctions.set(instrumentedFunction, fn);
+  instrumentationOptions.set(
+    instrumentedFunction,
+    instrumentationOptions.get(instrumented) ?? {},
+  );
+  instrumentedCalls.set(instrumentedFunction, callInstrumented);
+
+  return instrumentedFunction as AutometricsWrapper<F>;
+}
+
+/**
+ * Returns the original function of a function that was instrumented with
+ * autometrics, or the function itself if it wasn't instrumented.
+ *
+ * @param fn {F} - the (possibly) instrumented function
+ *
+ * @group Wrapper and Decorator API
+ */
+export function unwrap<F extends FunctionSig>(
+  fn: F | AutometricsWrapper<F>,
+): F {
+  return (originalFunctions.get(fn) ?? fn) as F;
+}
+
+/**
+ * Checks whether a function was instrumented with autometrics.
+ *
+ * @param fn {Function} - the function to check
+ *
+ * @group Wrapper and Decorator API
+ */
+export function isInstrumented(fn: Function): boolean {
+  return originalFunctions.has(fn);
+}
+
+/**
+ * Checks whether both options objects have the same options, ignoring options
+ * that are not set.
+ */
+function haveSameOptions(
+  a: AutometricsOptions<FunctionSig>,
+  b: AutometricsOptions<FunctionSig>,
+): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<
+    keyof AutometricsOptions<FunctionSig>
+  >;
+  for (const key of keys) {
+    if (!Object.is(a[key], b[key])) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Copies the `name`, `length`, `prototype` and static properties of the
+ * original function to the wrapper, so the wrapper can be used in its place
+ * (for example for Express, which checks the arity of error handlers, or with
+ * `new` and `instanceof`).
+ */
+function copyFunctionProperties(wrapper: Function, original: Function) {
+  for (const key of Reflect.ownKeys(original)) {
+    if (key === "arguments" || key === "caller") {
+      continue;
+    }
+
+    const descriptor = Object.getOwnPropertyDescriptor(original, key);
+    if (!descriptor) {
+      continue;
+    }
+
+    if (key === "prototype") {
+      // The `prototype` of a function is not configurable, but is writable
+      Reflect.set(wrapper, key, descriptor.value);
+      continue;
+    }
+
+    try {
+      Object.defineProperty(wrapper, key, descriptor);
+    } catch (error) {
+      trace(`Could not copy property ${String(key)} to the wrapper: `, error);
+    }
+  }
+}
+
+type RunInContext = <T>(callback: () => T) => T;
+
+/**
+ * Instruments a generator object so that the function call is only recorded
+ * once the generator completes, throws, or is closed early through `return()`
+ * (for example by a `break` inside a `for...of` loop).
+ *
+ * The methods are overridden on the generator object itself, so the caller
+ * still receives the original object (which keeps `instanceof` and
+ * `Object.prototype.toString` checks working).
+ *
+ * `onFinish` is called for both completion and early closing, `onError` is
+ * called if the generator throws.
+ */
+function instrumentGenerator<G extends Generator>(
+  generator: G,
+  runInContext: RunInContext,
+  onFinish: () => void,
+  onError: (error: unknown) => void,
+): G {
+  const { next, return: close, throw: throwInto } = generator;
+  let finished = false;
+
+  const step = (
+    advance: () => IteratorResult<unknown>,
+    closing = false,
+  ): IteratorResult<unknown> => {
+    if (finished) {
+      return advance();
+    }
+
+    try {
+      const result = runInContext(advance);
+      if (result.done || closing) {
+        finished = true;
+        onFinish();
+      }
+      return result;
+    } catch (error) {
+      finished = true;
+      onError(error);
+      throw error;
+    }
+  };
+
+  overrideMethods(generator, {
+    next: (...args: [] | [unknown]) => step(() => next.apply(generator, args)),
+    return: (value: unknown) => step(() => close.call(generator, value), true),
+    throw: (error: unknown) => step(() => throwInto.call(generator, error)),
+  });
+
+  return generator;
+}
+
+/**
+ * The asynchronous counterpart of {@link instrumentGenerator}, for async
+ * generators.
+ */
+function instrumentAsyncGenerator<G extends AsyncGenerator>(
+  generator: G,
+  runInContext: RunInContext,
+  onFinish: () => void,
+  onError: (error: unknown) => void,
+): G {
+  const { next, return: close, throw: throwInto } = generator;
+  let finished = false;
+
+  const step = async (
+    advance: () => Promise<IteratorResult<unknown>>,
+    closing = false,
+  ): Promise<IteratorResult<unknown>> => {
+    if (finished) {
+      return advance();
+    }
+
+    try {
+      const result = await runInContext(advance);
+      if (!finished && (result.done || closing)) {
+        finished = true;
+        onFinish();
+      }
+      return result;
+    } catch (error) {
+      if (!finished) {
+        finished = true;
+        onError(error);
+      }
+      throw error;
+    }
+  };
+
+  overrideMethods(generator, {
+    next: (...args: [] | [unknown]) => step(() => next.apply(generator, args)),
+    return: (value: unknown) => step(() => close.call(generator, value), true),
+    throw: (error: unknown) => step(() => throwInto.call(generator, error)),
+  });
+
+  return generator;
+}
+
+/**
+ * Defines the given methods as own, non-enumerable properties of an object,
+ * shadowing the methods of its prototype.
+ */
+function overrideMethods(target: object, methods: Record<string, Function>) {
+  for (const [name, value] of Object.entries(methods)) {
+    Object.defineProperty(target, name, {
+      value,
+      configurable: true,
+      writable: true,
+    });
+  }
+}
+
+/**
+ * Selects class members by name, either using a list of names or a predicate.
+ *
+ * @group Wrapper and Decorator API
+ */
+export type MemberFilter = Array<string> | ((name: string) => boolean);
+
+/**
+ * Options for `instrumentObject()` and `instrumentModule()`.
+ *
+ * @group Wrapper and Decorator API
+ */
+export type InstrumentObjectOptions<T extends object> = Omit<
+  AutometricsOptions<FunctionSig>,
+  "functionName"
+> & {
+  /**
+   * Only instrument the functions matching this filter.
+   */
+  include?: MemberFilter;
+
+  /**
+   * Don't instrument the functions matching this filter.
+   */
+  exclude?: MemberFilter;
+
+  /**
+   * Options for individual functions, keyed by property name. These are merged
+   * with (and take precedence over) the shared options.
+   */
+  overrides?: {
+    [K in keyof T]?: T[K] extends FunctionSig
+      ? AutometricsOptions<T[K]>
+      : never;
+  };
+};
+
+/**
+ * The result of `instrumentObject()`: the same shape as the original object,
+ * with every instrumented function wrapped by autometrics.
+ *
+ * @group Wrapper and Decorator API
+ */
+export type InstrumentedObject<T extends object> = {
+  [K in keyof T]: T[K] extends FunctionSig ? AutometricsWrapper<T[K]> : T[K];
+};
+
+/**
+ * Instruments every function-valued property of an object with autometrics,
+ * and returns a new object with the same properties. The original object is
+ * not modified, so this also works for (frozen) module namespace objects.
+ *
+ * Every function is named after its property key rather than the name of the
+ * function itself, so the metrics are not affected by minification. Classes,
+ * getters and other properties that are not instrumented are forwarded to the
+ * original object, so getters and live bindings (`export let`) keep working.
+ *
+ * @param target {T} - the object (or module namespace) to instrument
+ * @param options {InstrumentObjectOptions} - options shared by all functions
+ *
+ * @example
+ *
+ * ```typescript
+ * import { instrumentObject } from "@autometrics/autometrics";
+ *
+ * export const userRepository = instrumentObject(
+ *   {
+ *     async getUser(id: string) {},
+ *     async createUser(user: User) {},
+ *   },
+ *   {
+ *     trackConcurrency: true,
+ *     overrides: { getUser: { objective: API_SLO } },
+ *   },
+ * );
+ * ```
+ *
+ * @group Wrapper and Decorator API
+ */
+export function instrumentObject<T extends object>(
+  target: T,
+  options: InstrumentObjectOptions<T> = {},
+): InstrumentedObject<T> {
+  const { include, exclude, overrides, ...autometricsOptions } = options;
+  const shouldInstrument = createMemberFilter(include, exclude);
+  const moduleName = autometricsOptions.moduleName ?? getModulePath();
+
+  const instrumented: Record<string, unknown> = {};
+  for (const key of Object.keys(target)) {
+    const descriptor = Object.getOwnPropertyDescriptor(target, key);
+    const value = descriptor?.value;
+    if (
+      !descriptor ||
+      !("value" in descriptor) ||
+      !isFunction(value) ||
+      isClass(value) ||
+      !shouldInstrument(key)
+    ) {
+      forwardProperty(instrumented, target as Record<string, unknown>, key);
+      continue;
+    }
+
+    const functionOverrides = overrides?.[key as keyof T] as
+      | AutometricsOptions<FunctionSig>
+      | undefined;
+
+    instrumented[key] = autometrics(
+      {
+        ...autometricsOptions,
+        functionName: key,
+        moduleName,
+        ...functionOverrides,
+      },
+      value as FunctionSig,
+    );
+  }
+
+  return instrumented as InstrumentedObject<T>;
+}
+
+function forwardProperty(
+  instrumented: Record<string, unknown>,
+  target: Record<string, unknown>,
+  key: string,
+) {
+  Object.defineProperty(instrumented, key, {
+    configurable: true,
+    enumerable: true,
+    get: () => target[key],
+    set: (value: unknown) => {
+      target[key] = value;
+    },
+  });
+}
+
+/**
+ * Instruments every exported function of a module. This is an alias of
+ * `instrumentObject()`, meant to be used with namespace imports.
+ *
+ * @example
+ *
+ * ```typescript
+ * import { instrumentModule } from "@autometrics/autometrics";
+ * import * as userService from "./userService";
+ *
+ * export const { getUser, createUser } = instrumentModule(userService);
+ * ```
+ *
+ * @group Wrapper and Decorator API
+ */
+export const instrumentModule = instrumentObject;
+
+/**
+ * Options for the class decorator. Methods instrumented through the class
+ * decorator are named `ClassName.method`, so methods with the same name in
+ * different classes can be told apart.
+ *
+ * @group Wrapper and Decorator API
+ */
 export type AutometricsClassDecoratorOptions = Omit<
   AutometricsOptions<FunctionSig>,
   "functionName"
->;
+> & {
+  /**
+   * Only instrument the members matching this filter.
+   */
+  include?: MemberFilter;
+
+  /**
+   * Don't instrument the members matching this filter, such as `toString` or
+   * private helpers.
+   */
+  exclude?: MemberFilter;
+
+  /**
+   * Also instrument static methods. (default: `false`)
+   */
+  includeStatic?: boolean;
+
+  /**
+   * Also instrument methods inherited from parent classes. The parent classes
+   * themselves remain untouched. (default: `false`)
+   */
+  includeInherited?: boolean;
+
+  /**
+   * Also instrument instance fields that are initialized with a function, such
+   * as arrow functions. This is done by wrapping the class constructor, so the
+   * decorated class is replaced by a subclass. (default: `false`)
+   */
+  instrumentFields?: boolean;
+};
 
 type AutometricsDecoratorOptions<F> = F extends FunctionSig
   ? AutometricsClassDecoratorOptions
@@ -422,6 +1335,11 @@ type AutometricsDecoratorOptions<F> = F extends FunctionSig
  * Hover over the method to get the links for generated queries (if you have the
  * language service plugin installed).
  *
+ * The decorator supports both the legacy `experimentalDecorators` protocol and
+ * the TC39 standard decorators from TypeScript 5, and can also be applied to
+ * getters, setters and auto-accessors. Getters and setters are named after
+ * their property with a `.get` or `.set` suffix.
+ *
  * Optionally, you can pass in an {@link AutometricsOptions} object to configure
  * the decorator.
  * @param autometricsOptions
@@ -481,22 +1399,46 @@ type AutometricsDecoratorOptions<F> = F extends FunctionSig
 export function Autometrics<T extends Function | Object>(
   autometricsOptions?: AutometricsDecoratorOptions<T>,
 ) {
-  function decorator<T extends Function>(target: T): void;
+  // Legacy (`experimentalDecorators`) signatures:
+  function decorator<T extends Function>(target: T): T | void;
   function decorator<T extends Object>(
     target: T,
-    propertyKey: string,
+    propertyKey: string | symbol,
     descriptor: PropertyDescriptor,
   ): void;
-  function decorator<T extends Function | Object>(
-    target: T,
-    propertyKey?: string,
+  // TC39 standard decorator signatures:
+  function decorator<C extends Function>(
+    value: C,
+    context: ClassDecoratorContext,
+  ): C | void;
+  function decorator<F extends FunctionSig>(
+    value: F,
+    context:
+      | ClassMethodDecoratorContext
+      | ClassGetterDecoratorContext
+      | ClassSetterDecoratorContext,
+  ): F;
+  function decorator<This, V>(
+    value: ClassAccessorDecoratorTarget<This, V>,
+    context: ClassAccessorDecoratorContext<This, V>,
+  ): ClassAccessorDecoratorResult<This, V>;
+  function decorator<This, V>(
+    value: undefined,
+    context: ClassFieldDecoratorContext<This, V>,
+  ): (initialValue: V) => V;
+  function decorator(
+    target: unknown,
+    propertyKeyOrContext?: string | symbol | DecoratorContext,
     descriptor?: PropertyDescriptor,
   ) {
+    if (isStandardDecoratorContext(propertyKeyOrContext)) {
+      return decorateStandard(target, propertyKeyOrContext, autometricsOptions);
+    }
+
+    const propertyKey = propertyKeyOrContext;
     if (isFunction(target)) {
       const classDecorator = getAutometricsClassDecorator(autometricsOptions);
-      classDecorator(target);
-
-      return;
+      return classDecorator(target);
     }
 
     if (isObject(target) && propertyKey && descriptor) {
@@ -508,6 +1450,105 @@ export function Autometrics<T extends Function | Object>(
   return decorator;
 }
 
+function isStandardDecoratorContext(value: unknown): value is DecoratorContext {
+  return (
+    typeof value === "object" &&
+    value != null &&
+    "kind" in value &&
+    typeof value.kind === "string"
+  );
+}
+
+function getMemberName(name: string | symbol): string {
+  return typeof name === "symbol" ? name.description ?? "" : name;
+}
+
+/**
+ * Returns the name of the getter or setter of a property. Both sides of an
+ * accessor are named after the property, so they get a suffix to keep their
+ * metrics apart.
+ */
+function getAccessorName(name: string, kind: "get" | "set"): string {
+  return `${name}.${kind}`;
+}
+
+/**
+ * Applies the decorator using the TC39 standard decorator protocol, where the
+ * decorator receives the decorated value and a context object describing it.
+ */
+function decorateStandard(
+  value: unknown,
+  context: DecoratorContext,
+  autometricsOptions?: AutometricsOptions<FunctionSig>,
+): unknown {
+  // The module is looked up while the decorator is applied, since fields are
+  // only instrumented once an instance is created.
+  const moduleName = autometricsOptions?.moduleName ?? getModulePath();
+  const functionName =
+    autometricsOptions?.functionName ??
+    (context.kind === "class" ? "" : getMemberName(context.name));
+  const instrument = <F extends FunctionSig>(
+    fn: F,
+    accessorKind?: "get" | "set",
+  ) =>
+    autometrics(
+      {
+        ...autometricsOptions,
+        functionName: accessorKind
+          ? getAccessorName(functionName, accessorKind)
+          : functionName,
+        moduleName,
+      },
+      fn,
+    );
+
+  switch (context.kind) {
+    case "class":
+      return getAutometricsClassDecorator(autometricsOptions)(
+        value as Function,
+      );
+
+    case "method":
+      return instrument(value as FunctionSig);
+
+    case "getter":
+      return instrument(value as FunctionSig, "get");
+
+    case "setter":
+      return instrument(value as FunctionSig, "set");
+
+    case "accessor": {
+      const { get, set } = value as ClassAccessorDecoratorTarget<
+        unknown,
+        unknown
+      >;
+      return {
+        get: instrument(get, "get"),
+        set: instrument(set, "set"),
+      };
+    }
+
+    case "field": {
+      // Fields can only be instrumented if they are initialized with a
+      // function, such as an arrow function. The field is initialized for
+      // every instance, but the instrumentation is only set up once.
+      let instrumented: AutometricsWrapper<FunctionSig> | undefined;
+      return (initialValue: unknown) => {
+        if (typeof initialValue !== "function") {
+          return initialValue;
+        }
+
+        if (!instrumented) {
+          instrumented = instrument(initialValue as FunctionSig);
+          return instrumented;
+        }
+
+        return reuseInstrumentation(instrumented, initialValue as FunctionSig);
+      };
+    }
+  }
+}
+
 /**
  * Decorator factory that returns a method decorator. Optionally accepts
  * an autometrics options object.
@@ -519,14 +1560,28 @@ export function getAutometricsMethodDecorator(
 ) {
   return (
     _target: Object,
-    _propertyKey: string,
+    propertyKey: string | symbol,
     descriptor: PropertyDescriptor,
   ) => {
-    const originalFunction = descriptor.value;
-    const functionOrOptions = autometricsOptions ?? originalFunction;
-    const functionInput = autometricsOptions ? originalFunction : undefined;
+    const functionName =
+      autometricsOptions?.functionName ?? getMemberName(propertyKey);
 
-    descriptor.value = autometrics(functionOrOptions, functionInput);
+    // Getters and setters have no `value`, but do have a `get` and/or `set`.
+    for (const key of ["value", "get", "set"] as const) {
+      const originalFunction = descriptor[key];
+      if (typeof originalFunction !== "function") {
+        continue;
+      }
+
+      descriptor[key] = autometrics(
+        {
+          ...autometricsOptions,
+          functionName:
+            key === "value" ? functionName : getAccessorName(functionName, key),
+        },
+        originalFunction,
+      );
+    }
 
     return descriptor;
   };
@@ -540,35 +1595,175 @@ export function getAutometricsMethodDecorator(
  * @internal
  */
 export function getAutometricsClassDecorator(
-  autometricsOptions?: AutometricsClassDecoratorOptions,
+  classDecoratorOptions: AutometricsClassDecoratorOptions = {},
 ): ClassDecorator {
-  return (classConstructor: Function) => {
-    const prototype = classConstructor.prototype;
-    const propertyNames = Object.getOwnPropertyNames(prototype);
-    const methodDecorator = getAutometricsMethodDecorator(autometricsOptions);
-
-    for (const propertyName of propertyNames) {
-      const property = prototype[propertyName];
-      const descriptor = Object.getOwnPropertyDescriptor(
-        prototype,
-        propertyName,
-      );
+  const {
+    include,
+    exclude,
+    includeStatic = false,
+    includeInherited = false,
+    instrumentFields = false,
+    ...autometricsOptions
+  } = classDecoratorOptions;
 
-      if (
-        typeof property !== "function" ||
-        propertyName === "constructor" ||
-        !descriptor
-      ) {
-        continue;
+  const shouldInstrument = createMemberFilter(include, exclude);
+
+  return <T extends Function>(classConstructor: T): T | void => {
+    const className = classConstructor.name;
+    const moduleName = autometricsOptions.moduleName ?? getModulePath();
+
+    const getOptions = (name: string): AutometricsOptions<FunctionSig> => ({
+      ...autometricsOptions,
+      functionName: className ? `${className}.${name}` : name,
+      moduleName,
+    });
+
+    const instrumentMembers = (
+      target: object,
+      members: Map<string, PropertyDescriptor>,
+    ) => {
+      for (const [name, descriptor] of members) {
+        // Members with a decorator of their own keep the options of that
+        // decorator.
+        if (
+          !isMethodOrAccessor(descriptor) ||
+          isInstrumentedMember(descriptor) ||
+          !shouldInstrument(name)
+        ) {
+          continue;
+        }
+
+        const methodDecorator = getAutometricsMethodDecorator(getOptions(name));
+        Object.defineProperty(
+          target,
+          name,
+          methodDecorator(target, name, descriptor),
+        );
       }
+    };
 
-      const instrumentedDescriptor = methodDecorator(
-        {},
-        propertyName,
-        descriptor,
+    const prototype = classConstructor.prototype;
+    instrumentMembers(
+      prototype,
+      collectMembers(prototype, includeInherited, ["constructor"]),
+    );
+
+    if (includeStatic) {
+      instrumentMembers(
+        classConstructor,
+        collectMembers(classConstructor, false, [
+          "length",
+          "name",
+          "prototype",
+        ]),
       );
+    }
 
-      Object.defineProperty(prototype, propertyName, instrumentedDescriptor);
+    if (!instrumentFields) {
+      return;
     }
+
+    const BaseClass = classConstructor as unknown as new (
+      ...args: Array<unknown>
+    ) => Record<string, unknown>;
+
+    // Fields are initialized for every instance, but their instrumentation is
+    // only set up once for every field.
+    const instrumentedFields = new Map<
+      string,
+      AutometricsWrapper<FunctionSig>
+    >();
+
+    const InstrumentedClass = class extends BaseClass {
+      constructor(...args: Array<unknown>) {
+        super(...args);
+
+        for (const [name, value] of Object.entries(this)) {
+          if (
+            typeof value !== "function" ||
+            isInstrumented(value) ||
+            !shouldInstrument(name)
+          ) {
+            continue;
+          }
+
+          const instrumented = instrumentedFields.get(name);
+          if (instrumented) {
+            this[name] = reuseInstrumentation(
+              instrumented,
+              value as FunctionSig,
+            );
+          } else {
+            this[name] = autometrics(getOptions(name), value as FunctionSig);
+            instrumentedFields.set(name, this[name] as FunctionSig);
+          }
+        }
+      }
+    };
+    Object.defineProperty(InstrumentedClass, "name", { value: className });
+
+    return InstrumentedClass as unknown as T;
   };
 }
+
+function createMemberFilter(
+  include: MemberFilter | undefined,
+  exclude: MemberFilter | undefined,
+): (name: string) => boolean {
+  return (name) =>
+    (!include || matchesFilter(include, name)) &&
+    !(exclude && matchesFilter(exclude, name));
+}
+
+function matchesFilter(filter: MemberFilter, name: string): boolean {
+  return Array.isArray(filter) ? filter.includes(name) : filter(name);
+}
+
+function isClass(value: Function): boolean {
+  return /^class[\s{]/.test(Function.prototype.toString.call(value));
+}
+
+function isMethodOrAccessor(descriptor: PropertyDescriptor): boolean {
+  return (
+    typeof descriptor.value === "function" ||
+    typeof descriptor.get === "function" ||
+    typeof descriptor.set === "function"
+  );
+}
+
+function isInstrumentedMember(descriptor: PropertyDescriptor): boolean {
+  return [descriptor.value, descriptor.get, descriptor.set].some(
+    (fn) => typeof fn === "function" && isInstrumented(fn),
+  );
+}
+
+/**
+ * Collects the property descriptors of the target, and optionally those of
+ * its prototype chain. Members that are overridden lower in the chain take
+ * precedence.
+ */
+function collectMembers(
+  target: object,
+  includeInherited: boolean,
+  skippedNames: Array<string>,
+): Map<string, PropertyDescriptor> {
+  const members = new Map<string, PropertyDescriptor>();
+
+  let current: object | null = target;
+  while (current && current !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      const descriptor = Object.getOwnPropertyDescriptor(current, name);
+      if (descriptor && !members.has(name) && !skippedNames.includes(name)) {
+        members.set(name, descriptor);
+      }
+    }
+
+    if (!includeInherited) {
+      break;
+    }
+
+    current = Object.getPrototypeOf(current);
+  }
+
+  return members;
+}
@@ -0,0 +1,94 @@
+/**
+ * A value that can be formatted as YAML by {@link formatYaml}. Keys with an
+ * `undefined` value are left out.
+ *
+ * @internal
+ */
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | Array<YamlValue>
+  | { [key: string]: YamlValue | undefined };
+
+/**
+ * Formats a value as a YAML document. Multi-line strings are formatted as
+ * literal block scalars, so that queries remain readable.
+ *
+ * @internal
+ */
+export function formatYaml(value: YamlValue): string {
+  return `${formatNode(value, "").join("\n")}\n`;
+}
+
+/**
+ * Formats a string as a double-quoted YAML scalar. JSON strings are valid YAML.
+ *
+ * @internal
+ */
+export function formatYamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function formatNode(value: YamlValue, indent: string): Array<string> {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      const [first, ...rest] = formatNested(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (typeof value === "object") {
+    return Object.entries(value).flatMap(([key, item]) => {
+      if (item === undefined) {
+        return [];
+      }
+
+      const [first, ...rest] = formatNested(item, `${indent}  `);
+      const formattedKey = /^[A-Za-z_][\w.-]*$/.test(key)
+        ? key
+        : formatYamlString(key);
+
+      return isCollection(item) && !isEmpty(item)
+        ? [`${indent}${formattedKey}:`, first, ...rest]
+        : [`${indent}${formattedKey}: ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return [`${indent}${formatScalar(value)}`];
+}
+
+/**
+ * Formats a value nested in a collection. Multi-line strings become block
+ * scalars, of which the lines are indented.
+ */
+function formatNested(value: YamlValue, indent: string): Array<string> {
+  if (typeof value === "string" && value.includes("\n")) {
+    return [
+      `${indent}|`,
+      ...value.split("\n").map((line) => `${indent}${line}`),
+    ];
+  }
+
+  if (isCollection(value) && isEmpty(value)) {
+    return [`${indent}${Array.isArray(value) ? "[]" : "{}"}`];
+  }
+
+  return formatNode(value, isCollection(value) ? indent : "");
+}
+
+function formatScalar(value: string | number | boolean): string {
+  return typeof value === "string" ? formatYamlString(value) : String(value);
+}
+
+function isCollection(
+  value: YamlValue,
+): value is Exclude<YamlValue, string | number | boolean> {
+  return typeof value === "object";
+}
+
+function isEmpty(value: Exclude<YamlValue, string | number | boolean>) {
+  return Array.isArray(value)
+    ? value.length === 0
+    : Object.values(value).every((item) => item === undefined);
+}
@@ -0,0 +1,121 @@
+import { describe, expect, test } from "vitest";
+
+import {
+  createBuildInfoDefine,
+  detectBuildInfo,
+  flyDetector,
+  githubActionsDetector,
+  gitlabCiDetector,
+  npmPackageDetector,
+  packageJsonDetector,
+  vercelDetector,
+} from "../src/buildInfoDetectors";
+
+function createEnv(variables: Record<string, string>) {
+  return (name: string) => variables[name];
+}
+
+describe("build info detectors test", () => {
+  test("detects the build info in GitHub Actions", () => {
+    const env = createEnv({
+      GITHUB_ACTIONS: "true",
+      GITHUB_SHA: "abc123",
+      GITHUB_REF_NAME: "main",
+      GITHUB_SERVER_URL: "https://github.com",
+      GITHUB_REPOSITORY: "autometrics-dev/autometrics-ts",
+    });
+
+    expect(detectBuildInfo([githubActionsDetector], env)).toEqual({
+      commit: "abc123",
+      branch: "main",
+      repo_url: "https://github.com/autometrics-dev/autometrics-ts",
+      repo_provider: "github",
+    });
+  });
+
+  test("detects the build info in GitLab CI", () => {
+    const env = createEnv({
+      GITLAB_CI: "true",
+      CI_COMMIT_SHA: "abc123",
+      CI_COMMIT_BRANCH: "main",
+      CI_COMMIT_TAG: "v1.0.0",
+      CI_PROJECT_URL: "https://gitlab.com/org/repo",
+    });
+
+    expect(detectBuildInfo([gitlabCiDetector], env)).toEqual({
+      version: "v1.0.0",
+      commit: "abc123",
+      branch: "main",
+      repo_url: "https://gitlab.com/org/repo",
+      repo_provider: "gitlab",
+    });
+  });
+
+  test("detects the build info on Vercel", () => {
+    const env = createEnv({
+      VERCEL: "1",
+      VERCEL_GIT_PROVIDER: "bitbucket",
+      VERCEL_GIT_REPO_OWNER: "org",
+      VERCEL_GIT_REPO_SLUG: "repo",
+      VERCEL_GIT_COMMIT_SHA: "abc123",
+      VERCEL_GIT_COMMIT_REF: "feature",
+    });
+
+    expect(detectBuildInfo([vercelDetector], env)).toEqual({
+      commit: "abc123",
+      branch: "feature",
+      repo_url: "https://bitbucket.org/org/repo",
+      repo_provider: "bitbucket",
+    });
+  });
+
+  test("detects the version from the image on Fly.io", () => {
+    const env = createEnv({
+      FLY_APP_NAME: "app",
+      FLY_IMAGE_REF: "registry.fly.io/app:deployment-01H",
+    });
+
+    expect(detectBuildInfo([flyDetector], env)).toEqual({
+      version: "deployment-01H",
+    });
+  });
+
+  test("normalizes the repository URL from package.json", () => {
+    const detector = packageJsonDetector({
+      version: "1.2.3",
+      repository: { url: "git+https://github.com/org/repo.git" },
+    });
+
+    expect(detectBuildInfo([detector], createEnv({}))).toEqual({
+      version: "1.2.3",
+      repo_url: "https://github.com/org/repo",
+      repo_provider: "github",
+    });
+  });
+
+  test("takes every field from the first detector that detects it", () => {
+    const env = createEnv({
+      GITHUB_ACTIONS: "true",
+      GITHUB_SHA: "abc123",
+      npm_package_version: "1.2.3",
+      npm_package_repository_url: "github:org/other-repo",
+    });
+
+    expect(
+      detectBuildInfo([githubActionsDetector, npmPackageDetector], env),
+    ).toEqual({
+      version: "1.2.3",
+      commit: "abc123",
+      repo_url: "https://github.com/org/other-repo",
+      repo_provider: "github",
+    });
+  });
+
+  test("creates a define for bundlers", () => {
+    const detector = packageJsonDetector({ version: "1.2.3" });
+
+    expect(createBuildInfoDefine([detector])).toEqual({
+      __AUTOMETRICS_BUILD_INFO__: JSON.stringify({ version: "1.2.3" }),
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "vitest";
+
+import {
+  bindAutometricsContext,
+  createCallStackContextManager,
+  createOpenTelemetryContextManager,
+  getAutometricsContext,
+  getContextManager,
+} from "../src/context";
+
+const context = { callerFunction: "foo", callerModule: "bar.ts" };
+
+describe("context manager test", () => {
+  test("is available synchronously when the module is loaded", () => {
+    const contextManager = getContextManager();
+
+    const active = contextManager.with(context, () => contextManager.active());
+
+    expect(active).toEqual(context);
+  });
+
+  test("propagates the context across await boundaries", async () => {
+    const contextManager = getContextManager();
+
+    const active = await contextManager.with(context, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return contextManager.active();
+    });
+
+    expect(active).toEqual(context);
+    expect(contextManager.active()).toBeUndefined();
+  });
+
+  test("falls back cleanly without a registered OpenTelemetry context manager", () => {
+    const contextManager = createOpenTelemetryContextManager();
+
+    const result = contextManager.with(context, () => {
+      expect(contextManager.active()).toBeUndefined();
+      return "ok";
+    });
+
+    expect(result).toBe("ok");
+  });
+
+  test("tracks synchronous nesting with a call stack", async () => {
+    const contextManager = createCallStackContextManager();
+    const nested = { callerFunction: "baz" };
+
+    const active = await contextManager.with(context, async () => {
+      expect(contextManager.active()).toEqual(context);
+      contextManager.with(nested, () => {
+        expect(contextManager.active()).toEqual(nested);
+      });
+      expect(contextManager.active()).toEqual(context);
+
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return contextManager.active();
+    });
+
+    expect(active).toBeUndefined();
+  });
+
+  test("binds functions to the active context", () => {
+    const bound = getContextManager().with(context, () =>
+      bindAutometricsContext(() => getAutometricsContext()),
+    );
+
+    expect(getAutometricsContext()).toBeUndefined();
+    expect(bound()).toEqual(context);
+  });
+});
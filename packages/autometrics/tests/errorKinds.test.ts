@@ -0,0 +1,51 @@
+import { describe, expect, test } from "vitest";
+
+import { createErrorKindLimiter, errorNameClassifier } from "../src/errorKinds";
+
+class ValidationError extends Error {}
+class UnexpectedError extends Error {}
+
+describe("errorNameClassifier test", () => {
+  test("classifies built-in errors by default", () => {
+    const classify = errorNameClassifier();
+
+    expect(classify(new TypeError("Oh no"))).toBe("TypeError");
+    expect(classify(new ValidationError("Oh no"))).toBe("other");
+    expect(classify("Oh no")).toBe("other");
+  });
+
+  test("only records errors from the allow-list", () => {
+    const classify = errorNameClassifier({
+      allowList: ["ValidationError"],
+      otherKind: "unknown",
+    });
+
+    expect(classify(new ValidationError("Oh no"))).toBe("ValidationError");
+    expect(classify(new UnexpectedError("Oh no"))).toBe("unknown");
+    expect(classify(new TypeError("Oh no"))).toBe("unknown");
+  });
+});
+
+describe("createErrorKindLimiter test", () => {
+  test("records new error kinds as other once the limit is reached", () => {
+    const limit = createErrorKindLimiter("limited", "limiter.ts", 2);
+
+    expect(limit("validation")).toBe("validation");
+    expect(limit("")).toBe("");
+    expect(limit("upstream_5xx")).toBe("upstream_5xx");
+    expect(limit("timeout")).toBe("other");
+    expect(limit("unauthorized")).toBe("other");
+    expect(limit("validation")).toBe("validation");
+  });
+
+  test("shares the limit between wrappers of the same function", () => {
+    const first = createErrorKindLimiter("shared", "limiter.ts", 1);
+    const second = createErrorKindLimiter("shared", "limiter.ts", 1);
+    const other = createErrorKindLimiter("shared", "other.ts", 1);
+
+    expect(first("validation")).toBe("validation");
+    expect(second("upstream_5xx")).toBe("other");
+    expect(second("validation")).toBe("validation");
+    expect(other("upstream_5xx")).toBe("upstream_5xx");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "vitest";
+
+import { OVERFLOW_LABELS, createLabelResolver } from "../src/labels";
+
+describe("createLabelResolver test", () => {
+  test("returns static labels for every call", () => {
+    const resolveLabels = createLabelResolver({ tier: "free" }, "foo");
+
+    expect(resolveLabels()).toEqual({ tier: "free" });
+    expect(resolveLabels(["bar"])).toEqual({ tier: "free" });
+  });
+
+  test("derives labels from the arguments", () => {
+    const resolveLabels = createLabelResolver(
+      (method: string) => ({ method }),
+      "foo",
+    );
+
+    expect(resolveLabels()).toEqual({});
+    expect(resolveLabels(["GET"])).toEqual({ method: "GET" });
+  });
+
+  test("ignores reserved labels", () => {
+    const resolveLabels = createLabelResolver(
+      { function: "bar", tier: "free" },
+      "foo",
+    );
+
+    expect(resolveLabels()).toEqual({ tier: "free" });
+  });
+
+  test("records overflowing label sets in a single bucket", () => {
+    const resolveLabels = createLabelResolver(
+      (id: number) => ({ id }),
+      "foo",
+      "labels.test.ts",
+      2,
+    );
+
+    expect(resolveLabels([1])).toEqual({ id: 1 });
+    expect(resolveLabels([2])).toEqual({ id: 2 });
+    expect(resolveLabels([3])).toEqual({ id: "", ...OVERFLOW_LABELS });
+    expect(resolveLabels([1])).toEqual({ id: 1 });
+  });
+
+  test("keeps the keys of labels that cannot be derived", () => {
+    const resolveLabels = createLabelResolver((method?: string) => {
+      if (!method) {
+        throw new Error("no method");
+      }
+
+      return { method };
+    }, "baz");
+
+    expect(resolveLabels([])).toEqual({});
+    expect(resolveLabels(["GET"])).toEqual({ method: "GET" });
+    expect(resolveLabels([])).toEqual({ method: "" });
+    expect(resolveLabels()).toEqual({ method: "" });
+  });
+
+  test("shares the limit between wrappers of the same function", () => {
+    const first = createLabelResolver((id: number) => ({ id }), "bar", "a", 1);
+    const second = createLabelResolver((id: number) => ({ id }), "bar", "a", 1);
+    const other = createLabelResolver((id: number) => ({ id }), "bar", "b", 1);
+
+    expect(first([1])).toEqual({ id: 1 });
+    expect(second([2])).toEqual({ id: "", ...OVERFLOW_LABELS });
+    expect(second([1])).toBe(first([1]));
+    expect(other([2])).toEqual({ id: 2 });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "vitest";
+
+import { ObjectiveLatency, ObjectivePercentile } from "../src/objectives";
+import {
+  formatPrometheusRules,
+  generateAlertingRules,
+  generateRecordingRules,
+} from "../src/rules";
+
+describe("generateRecordingRules test", () => {
+  test("generates rules for custom success rates", () => {
+    const [group] = generateRecordingRules([
+      { name: "api", successRate: 99.95 },
+    ]);
+
+    expect(group.name).toBe("autometrics-slo-api");
+    expect(group.rules.map((rule) => rule.record)).toEqual([
+      "slo:sli_error:ratio_rate5m",
+      "slo:sli_error:ratio_rate30m",
+      "slo:sli_error:ratio_rate1h",
+      "slo:sli_error:ratio_rate2h",
+      "slo:sli_error:ratio_rate6h",
+      "slo:sli_error:ratio_rate1d",
+      "slo:sli_error:ratio_rate3d",
+    ]);
+    expect(group.rules[0].expr).toBe(
+      'sum by (objective_name, objective_percentile) (rate(function_calls_total{objective_name="api",objective_percentile="99.95",result=~"error"}[5m]))\n/\nsum by (objective_name, objective_percentile) (rate(function_calls_total{objective_name="api",objective_percentile="99.95",result!~"cancelled|timeout|rejected"}[5m]))',
+    );
+  });
+
+  test("counts the included interruptions as errors", () => {
+    const [group] = generateRecordingRules(
+      [{ name: "api", successRate: 99.95 }],
+      { errorRatioIncludes: ["timeout", "rejected"] },
+    );
+
+    expect(group.rules[0].expr).toBe(
+      'sum by (objective_name, objective_percentile) (rate(function_calls_total{objective_name="api",objective_percentile="99.95",result=~"error|timeout|rejected"}[5m]))\n/\nsum by (objective_name, objective_percentile) (rate(function_calls_total{objective_name="api",objective_percentile="99.95",result!~"cancelled"}[5m]))',
+    );
+  });
+
+  test("generates rules for every latency target", () => {
+    const [group] = generateRecordingRules([
+      {
+        name: "api",
+        latency: [
+          [ObjectiveLatency.Ms100, ObjectivePercentile.P95],
+          [0.3, 99],
+        ],
+      },
+    ]);
+
+    expect(group.rules).toHaveLength(14);
+    expect(group.rules[7]).toEqual({
+      record: "slo:sli_error:ratio_rate5m",
+      expr: [
+        "1 - (",
+        '  sum by (objective_name) (rate(function_calls_duration_bucket{objective_name="api",le="0.3"}[5m]))',
+        "  /",
+        '  sum by (objective_name) (rate(function_calls_duration_count{objective_name="api"}[5m]))',
+        ")",
+      ].join("\n"),
+      labels: {
+        slo_type: "latency",
+        objective_latency_threshold: "0.3",
+        objective_percentile: "99",
+      },
+    });
+  });
+
+  test("does not duplicate rules for objectives shared by functions", () => {
+    const objective = { name: "api", successRate: ObjectivePercentile.P99 };
+
+    const [group] = generateRecordingRules([objective, objective]);
+
+    expect(group.rules).toHaveLength(7);
+  });
+
+  test("throws for invalid objectives", () => {
+    expect(() =>
+      generateRecordingRules([{ name: "api", successRate: 100 }]),
+    ).toThrow("invalid success rate");
+  });
+
+  test("generates multi-window burn rate alerts", () => {
+    const [group] = generateAlertingRules([
+      { name: "api", successRate: 99.95 },
+    ]);
+
+    expect(group.name).toBe("autometrics-slo-alerts-api");
+    expect(group.rules).toHaveLength(2);
+
+    const [page, ticket] = group.rules;
+    expect(page).toMatchObject({
+      alert: "HighErrorRate",
+      labels: {
+        objective_name: "api",
+        objective_percentile: "99.95",
+        severity: "page",
+      },
+    });
+    expect(page.expr).toBe(
+      [
+        "(",
+        '  slo:sli_error:ratio_rate1h{objective_name="api",objective_percentile="99.95",slo_type="success_rate"} > 0.0072',
+        "  and",
+        '  slo:sli_error:ratio_rate5m{objective_name="api",objective_percentile="99.95",slo_type="success_rate"} > 0.0072',
+        ")",
+        "or",
+        "(",
+        '  slo:sli_error:ratio_rate6h{objective_name="api",objective_percentile="99.95",slo_type="success_rate"} > 0.003',
+        "  and",
+        '  slo:sli_error:ratio_rate30m{objective_name="api",objective_percentile="99.95",slo_type="success_rate"} > 0.003',
+        ")",
+      ].join("\n"),
+    );
+    expect(ticket.labels?.severity).toBe("ticket");
+  });
+
+  test("formats the rules as YAML", () => {
+    const yaml = formatPrometheusRules([
+      {
+        name: "group",
+        rules: [
+          { record: "record", expr: "a\n/\nb", labels: { key: "value" } },
+        ],
+      },
+    ]);
+
+    expect(yaml).toBe(
+      [
+        "groups:",
+        '  - name: "group"',
+        "    rules:",
+        '      - record: "record"',
+        "        expr: |",
+        "          a",
+        "          /",
+        "          b",
+        "        labels:",
+        '          key: "value"',
+        "",
+      ].join("\n"),
+    );
+  });
+});
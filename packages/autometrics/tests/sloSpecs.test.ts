@@ -0,0 +1,93 @@
+import { describe, expect, test } from "vitest";
+
+import { ObjectiveLatency, ObjectivePercentile } from "../src/objectives";
+import { generateOpenSlo, generateSlothSpec } from "../src/sloSpecs";
+
+const API_SLO = {
+  name: "api",
+  successRate: ObjectivePercentile.P99_9,
+  latency: [ObjectiveLatency.Ms250, ObjectivePercentile.P99],
+} as const;
+
+const USAGES = [
+  { objective: API_SLO, functionName: "getUser" },
+  { objective: API_SLO, functionName: "createUser" },
+];
+
+describe("generateOpenSlo test", () => {
+  test("generates an SLO for every target", () => {
+    const documents = generateOpenSlo(USAGES, { service: "users" }).split(
+      "---\n",
+    );
+
+    expect(documents).toHaveLength(2);
+    expect(documents[0]).toBe(
+      [
+        'apiVersion: "openslo/v1"',
+        'kind: "SLO"',
+        "metadata:",
+        '  name: "api-success-rate"',
+        '  displayName: "api: 99.9% of the calls succeed"',
+        "  annotations:",
+        '    "autometrics.dev/objective": "api"',
+        '    "autometrics.dev/functions": "getUser,createUser"',
+        "spec:",
+        '  description: "Autometrics objective api, used by getUser, createUser"',
+        '  service: "users"',
+        "  indicator:",
+        "    metadata:",
+        '      name: "api-success-rate"',
+        "    spec:",
+        "      ratioMetric:",
+        "        counter: true",
+        "        bad:",
+        "          metricSource:",
+        '            type: "Prometheus"',
+        "            spec:",
+        '              query: "sum(function_calls_total{objective_name=\\"api\\",objective_percentile=\\"99.9\\",result=~\\"error\\"})"',
+        "        total:",
+        "          metricSource:",
+        '            type: "Prometheus"',
+        "            spec:",
+        '              query: "sum(function_calls_total{objective_name=\\"api\\",objective_percentile=\\"99.9\\",result!~\\"cancelled|timeout|rejected\\"})"',
+        "  timeWindow:",
+        '    - duration: "28d"',
+        "      isRolling: true",
+        '  budgetingMethod: "Occurrences"',
+        "  objectives:",
+        '    - displayName: "api: 99.9% of the calls succeed"',
+        "      target: 0.999",
+        "",
+      ].join("\n"),
+    );
+    expect(documents[1]).toContain('name: "api-latency-p99-250ms"');
+  });
+});
+
+describe("generateSlothSpec test", () => {
+  test("generates event queries based on the histogram", () => {
+    const spec = generateSlothSpec(USAGES, { service: "users" });
+
+    expect(spec).toMatch(/^version: "prometheus\/v1"\nservice: "users"\nslos:/);
+    expect(spec).toContain(
+      [
+        '  - name: "api-latency-p99-250ms"',
+        "    objective: 99",
+        '    description: "Autometrics objective api, used by getUser, createUser"',
+        "    labels:",
+        '      objective_name: "api"',
+        '      objective_latency_threshold: "0.25"',
+        '      objective_percentile: "99"',
+        "    sli:",
+        "      events:",
+        "        error_query: |",
+        '          sum(rate(function_calls_duration_count{objective_name="api"}[{{.window}}]))',
+        "          -",
+        '          sum(rate(function_calls_duration_bucket{objective_name="api",le="0.25"}[{{.window}}]))',
+        '        total_query: "sum(rate(function_calls_duration_count{objective_name=\\"api\\"}[{{.window}}]))"',
+        "    alerting:",
+        '      name: "HighLatency"',
+      ].join("\n"),
+    );
+  });
+});
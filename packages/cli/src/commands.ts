@@ -0,0 +1,229 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  AutometricsSpecVersion,
+  INTERRUPTED_RESULTS,
+  InterruptedResult,
+  configure,
+  generateOpenSlo,
+  generateSlothSpec,
+} from "@autometrics/autometrics";
+
+import { FoundObjective, findObjectives } from "./objectives";
+import { loadProject } from "./project";
+import { generateRulesFile } from "./rules";
+
+const USAGE = `Usage: autometrics <command> [options]
+
+Commands:
+  rules generate           generates a Prometheus rules file with recording
+                           rules and multi-window, multi-burn-rate alerts for
+                           the objectives used in a TypeScript project
+  slos export              exports the objectives used in a TypeScript project
+                           as OpenSLO or Sloth specs
+
+Options:
+  -p, --project <path>     tsconfig.json of the project (default: tsconfig.json)
+  -o, --output <path>      file to write (default for rules:
+                           autometrics.rules.yml, default for SLOs: stdout)
+      --check              check that the output file is up to date, instead
+                           of writing it
+      --format <format>    format of the SLOs: openslo or sloth
+                           (default: openslo)
+      --service <name>     service the SLOs belong to (default: the
+                           OTEL_SERVICE_NAME environment variable)
+      --namespace <name>   namespace of the metrics, as configured using the
+                           namespace setting
+      --spec-version <v>   spec version of the metrics, as configured using
+                           the specVersion setting
+      --error-ratio-includes <results>
+                           comma-separated interrupted results to count as
+                           errors in success rates: cancelled, timeout and/or
+                           rejected (default: none, interrupted calls are
+                           left out)
+  -h, --help               show this help
+`;
+
+const SPEC_VERSIONS: Array<AutometricsSpecVersion> = ["1.0.0", "legacy"];
+
+const SLO_FORMATS = {
+  openslo: generateOpenSlo,
+  sloth: generateSlothSpec,
+};
+
+/**
+ * Runs the CLI with the given arguments, and returns the exit code.
+ */
+export function run(args: Array<string>): number {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(args);
+  } catch (error) {
+    console.error(`${getMessage(error)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { positionals, values } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const command = positionals.join(" ");
+  if (command !== "rules generate" && command !== "slos export") {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const specVersion = values["spec-version"] as AutometricsSpecVersion;
+  if (specVersion && !SPEC_VERSIONS.includes(specVersion)) {
+    console.error(
+      `Unknown spec version ${specVersion}, expected one of: ${SPEC_VERSIONS.join(
+        ", ",
+      )}`,
+    );
+    return 2;
+  }
+
+  const format = (values.format ?? "openslo") as keyof typeof SLO_FORMATS;
+  if (!Object.hasOwn(SLO_FORMATS, format)) {
+    console.error(
+      `Unknown format ${format}, expected one of: ${Object.keys(
+        SLO_FORMATS,
+      ).join(", ")}`,
+    );
+    return 2;
+  }
+
+  const errorRatioIncludes = (values["error-ratio-includes"] ?? "")
+    .split(",")
+    .filter(Boolean) as Array<InterruptedResult>;
+  const unknownResult = errorRatioIncludes.find(
+    (result) => !INTERRUPTED_RESULTS.includes(result),
+  );
+  if (unknownResult) {
+    console.error(
+      `Unknown interrupted result ${unknownResult}, expected one of: ${INTERRUPTED_RESULTS.join(
+        ", ",
+      )}`,
+    );
+    return 2;
+  }
+
+  // The metric names follow the settings of the library.
+  configure({ namespace: values.namespace, specVersion });
+
+  try {
+    const objectives = loadObjectives(values.project ?? "tsconfig.json");
+    const check = values.check ?? false;
+
+    if (command === "rules generate") {
+      return writeOutput(
+        values.output ?? "autometrics.rules.yml",
+        generateRulesFile(
+          objectives.map(({ objective }) => objective),
+          { errorRatioIncludes },
+        ),
+        check,
+      );
+    }
+
+    return writeOutput(
+      values.output,
+      SLO_FORMATS[format](objectives, {
+        service: values.service,
+        errorRatioIncludes,
+      }),
+      check,
+    );
+  } catch (error) {
+    console.error(getMessage(error));
+    return 1;
+  }
+}
+
+function parseCliArgs(args: Array<string>) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      project: { type: "string", short: "p" },
+      output: { type: "string", short: "o" },
+      check: { type: "boolean" },
+      format: { type: "string" },
+      service: { type: "string" },
+      namespace: { type: "string" },
+      "spec-version": { type: "string" },
+      "error-ratio-includes": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+/**
+ * Finds the objectives in the project, and warns about the ones that cannot
+ * be determined statically.
+ */
+function loadObjectives(projectPath: string): Array<FoundObjective> {
+  const { objectives, unresolved } = findObjectives(loadProject(projectPath));
+  for (const { fileName, line } of unresolved) {
+    console.warn(
+      `${relative(
+        process.cwd(),
+        fileName,
+      )}:${line}: the objective cannot be determined without running the code, so it is left out`,
+    );
+  }
+
+  // Sorted by name, so that the output does not change when code is moved
+  // around.
+  return objectives.sort((a, b) =>
+    a.objective.name < b.objective.name
+      ? -1
+      : a.objective.name > b.objective.name
+      ? 1
+      : 0,
+  );
+}
+
+/**
+ * Writes the output to the given file, or to stdout if there is no file. In
+ * check mode, the file is compared against the output instead.
+ */
+function writeOutput(
+  outputPath: string | undefined,
+  content: string,
+  check: boolean,
+): number {
+  if (!outputPath) {
+    if (check) {
+      throw new Error("The --check option requires an --output file");
+    }
+
+    process.stdout.write(content);
+    return 0;
+  }
+
+  const output = resolve(outputPath);
+
+  if (check) {
+    if (!existsSync(output) || readFileSync(output, "utf8") !== content) {
+      console.error(
+        `${outputPath} is out of date, run the command without --check to update it`,
+      );
+      return 1;
+    }
+
+    console.log(`${outputPath} is up to date`);
+    return 0;
+  }
+
+  writeFileSync(output, content);
+  console.log(`Wrote ${outputPath}`);
+  return 0;
+}
+
+function getMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,3 @@
+export * from "./objectives";
+export { loadProject } from "./project";
+export { generateRulesFile } from "./rules";
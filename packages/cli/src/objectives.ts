@@ -0,0 +1,568 @@
+import type { Objective } from "@autometrics/autometrics";
+import ts from "typescript";
+
+/**
+ * An objective that is passed to `autometrics()`, `@Autometrics()`,
+ * `instrumentObject()` or `instrumentModule()`, together with the function it
+ * applies to.
+ */
+export type FoundObjective = {
+  objective: Objective;
+
+  /**
+   * Name of the instrumented function, as it appears in the metrics. Is
+   * `undefined` if the name cannot be determined statically.
+   */
+  functionName?: string;
+
+  fileName: string;
+  line: number;
+};
+
+/**
+ * An objective that could not be evaluated statically, for example because it
+ * is created at runtime.
+ */
+export type UnresolvedObjective = {
+  fileName: string;
+  line: number;
+};
+
+/**
+ * Marks values that cannot be evaluated statically.
+ */
+const UNKNOWN = Symbol("unknown");
+
+/**
+ * Protects against circular references between constants.
+ */
+const MAX_EVALUATION_DEPTH = 32;
+
+/**
+ * Finds all objectives that are passed to `autometrics()`, `@Autometrics()`,
+ * `instrumentObject()` and `instrumentModule()` in the source files of the
+ * program.
+ *
+ * Objectives are evaluated statically, so they need to be defined using
+ * literals, constants (which may be imported from other modules) and the
+ * `ObjectiveLatency` and `ObjectivePercentile` enums. The functions
+ * instrumented by `instrumentObject()` are taken from the type of the object,
+ * so they can only be filtered using arrays of names.
+ */
+export function findObjectives(program: ts.Program): {
+  objectives: Array<FoundObjective>;
+  unresolved: Array<UnresolvedObjective>;
+} {
+  const checker = program.getTypeChecker();
+  const objectives: Array<FoundObjective> = [];
+  const unresolved: Array<UnresolvedObjective> = [];
+
+  const addObjective = (
+    options: ts.Expression | undefined,
+    functionNames: (
+      options: Record<string, unknown>,
+    ) => Array<string | undefined>,
+  ) => {
+    if (!options) {
+      return;
+    }
+
+    const location = getLocation(options);
+    const value = evaluate(options, checker, 0);
+    if (!isRecord(value) || !("objective" in value)) {
+      // Options without an objective are fine, but options we cannot evaluate
+      // may hide one.
+      if (value === UNKNOWN) {
+        unresolved.push(location);
+      }
+      return;
+    }
+
+    const { objective } = value;
+    if (!isObjective(objective)) {
+      unresolved.push(location);
+      return;
+    }
+
+    for (const functionName of functionNames(value)) {
+      objectives.push({ objective, functionName, ...location });
+    }
+  };
+
+  const addObjectObjectives = (
+    target: ts.Expression,
+    options: ts.Expression | undefined,
+  ) => {
+    if (!options) {
+      return;
+    }
+
+    const location = getLocation(options);
+    const value = evaluate(options, checker, 0);
+    if (!isRecord(value)) {
+      if (value === UNKNOWN) {
+        unresolved.push(location);
+      }
+      return;
+    }
+
+    let isUnresolved = false;
+    for (const name of getObjectFunctionNames(target, checker)) {
+      // The options of a function are merged with its overrides.
+      const override = isRecord(value.overrides)
+        ? value.overrides[name]
+        : value.overrides;
+      if (override !== undefined && !isRecord(override)) {
+        isUnresolved = true;
+        continue;
+      }
+
+      const objective =
+        override && "objective" in override
+          ? override.objective
+          : value.objective;
+      if (objective === undefined) {
+        continue;
+      }
+
+      const isIncluded = isMemberIncluded(value, name);
+      if (isIncluded === false) {
+        continue;
+      }
+
+      if (isIncluded === undefined || !isObjective(objective)) {
+        isUnresolved = true;
+        continue;
+      }
+
+      const functionName =
+        typeof override?.functionName === "string"
+          ? override.functionName
+          : name;
+      objectives.push({ objective, functionName, ...location });
+    }
+
+    if (isUnresolved) {
+      unresolved.push(location);
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && getCalleeName(node) === "autometrics") {
+      // `autometrics(fn)` has no options, `autometrics(options, fn)` does.
+      const [options, fn] = node.arguments;
+      if (fn) {
+        addObjective(options, ({ functionName }) => [
+          typeof functionName === "string" ? functionName : getFunctionName(fn),
+        ]);
+      }
+    }
+
+    if (
+      ts.isCallExpression(node) &&
+      (getCalleeName(node) === "instrumentObject" ||
+        getCalleeName(node) === "instrumentModule")
+    ) {
+      const [target, options] = node.arguments;
+      if (target) {
+        addObjectObjectives(target, options);
+      }
+    }
+
+    if (ts.isDecorator(node) && ts.isCallExpression(node.expression)) {
+      const call = node.expression;
+      if (getCalleeName(call) === "Autometrics") {
+        addObjective(call.arguments[0], (options) =>
+          getDecoratedFunctionNames(node.parent, options),
+        );
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  for (const sourceFile of program.getSourceFiles()) {
+    if (
+      !sourceFile.isDeclarationFile &&
+      !program.isSourceFileFromExternalLibrary(sourceFile)
+    ) {
+      visit(sourceFile);
+    }
+  }
+
+  return { objectives, unresolved };
+}
+
+/**
+ * Statically evaluates an expression, returning `UNKNOWN` if this is not
+ * possible.
+ */
+function evaluate(
+  node: ts.Expression,
+  checker: ts.TypeChecker,
+  depth: number,
+): unknown {
+  if (depth > MAX_EVALUATION_DEPTH) {
+    return UNKNOWN;
+  }
+
+  const evaluateNested = (expression: ts.Expression) =>
+    evaluate(expression, checker, depth + 1);
+
+  if (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isTypeAssertionExpression(node)
+  ) {
+    return evaluateNested(node.expression);
+  }
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+
+  if (ts.isNumericLiteral(node)) {
+    return Number(node.text);
+  }
+
+  if (node.kind === ts.SyntaxKind.TrueKeyword) {
+    return true;
+  }
+
+  if (node.kind === ts.SyntaxKind.FalseKeyword) {
+    return false;
+  }
+
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken
+  ) {
+    const operand = evaluateNested(node.operand);
+    return typeof operand === "number" ? -operand : UNKNOWN;
+  }
+
+  if (ts.isArrayLiteralExpression(node)) {
+    const elements = [];
+    for (const element of node.elements) {
+      const value = ts.isSpreadElement(element)
+        ? evaluateNested(element.expression)
+        : evaluateNested(element);
+      if (value === UNKNOWN) {
+        return UNKNOWN;
+      }
+
+      if (ts.isSpreadElement(element)) {
+        if (!Array.isArray(value)) {
+          return UNKNOWN;
+        }
+        elements.push(...value);
+      } else {
+        elements.push(value);
+      }
+    }
+
+    return elements;
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    const object: Record<string, unknown> = {};
+    for (const property of node.properties) {
+      if (ts.isSpreadAssignment(property)) {
+        const value = evaluateNested(property.expression);
+        if (!isRecord(value)) {
+          return UNKNOWN;
+        }
+        Object.assign(object, value);
+        continue;
+      }
+
+      const name = getPropertyName(property.name);
+      if (name === undefined) {
+        return UNKNOWN;
+      }
+
+      if (ts.isPropertyAssignment(property)) {
+        object[name] = evaluateNested(property.initializer);
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        const symbol = checker.getShorthandAssignmentValueSymbol(property);
+        object[name] = symbol
+          ? evaluateSymbol(symbol, checker, depth + 1)
+          : UNKNOWN;
+      } else {
+        // Methods and accessors are not part of objectives, but may be used
+        // for other options.
+        object[name] = UNKNOWN;
+      }
+    }
+
+    return object;
+  }
+
+  if (
+    ts.isPropertyAccessExpression(node) ||
+    ts.isElementAccessExpression(node)
+  ) {
+    // Enum members, such as `ObjectivePercentile.P99`
+    const declaration = checker.getSymbolAtLocation(node)?.valueDeclaration;
+    if (declaration && ts.isEnumMember(declaration)) {
+      return checker.getConstantValue(declaration) ?? UNKNOWN;
+    }
+
+    const object = evaluateNested(node.expression);
+    const key = ts.isPropertyAccessExpression(node)
+      ? node.name.text
+      : evaluateNested(node.argumentExpression);
+    if (
+      (isRecord(object) && typeof key === "string") ||
+      (Array.isArray(object) && typeof key === "number")
+    ) {
+      return (object as Record<string | number, unknown>)[key] ?? UNKNOWN;
+    }
+
+    return UNKNOWN;
+  }
+
+  if (ts.isIdentifier(node)) {
+    const symbol = checker.getSymbolAtLocation(node);
+    return symbol ? evaluateSymbol(symbol, checker, depth + 1) : UNKNOWN;
+  }
+
+  return UNKNOWN;
+}
+
+/**
+ * Evaluates the value of a constant, following imports.
+ */
+function evaluateSymbol(
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+  depth: number,
+): unknown {
+  const resolved =
+    symbol.flags & ts.SymbolFlags.Alias
+      ? checker.getAliasedSymbol(symbol)
+      : symbol;
+
+  const declaration = resolved.valueDeclaration;
+  if (
+    declaration &&
+    ts.isVariableDeclaration(declaration) &&
+    declaration.initializer &&
+    ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const
+  ) {
+    return evaluate(declaration.initializer, checker, depth);
+  }
+
+  return UNKNOWN;
+}
+
+/**
+ * Returns the names of the functions instrumented by an `@Autometrics()`
+ * decorator, following the naming of the decorator itself: decorated methods
+ * are named after the method, while the methods of decorated classes are
+ * prefixed with the name of the class. Getters and setters get a `.get` or
+ * `.set` suffix.
+ */
+function getDecoratedFunctionNames(
+  decorated: ts.Node,
+  options: Record<string, unknown>,
+): Array<string | undefined> {
+  const { functionName } = options;
+
+  if (ts.isMethodDeclaration(decorated)) {
+    return [
+      typeof functionName === "string"
+        ? functionName
+        : getPropertyName(decorated.name),
+    ];
+  }
+
+  if (
+    ts.isGetAccessorDeclaration(decorated) ||
+    ts.isSetAccessorDeclaration(decorated)
+  ) {
+    const name =
+      typeof functionName === "string"
+        ? functionName
+        : getPropertyName(decorated.name);
+    return [name && getAccessorName(name, decorated)];
+  }
+
+  if (ts.isClassDeclaration(decorated)) {
+    const className = decorated.name?.text;
+    const { include, exclude, includeStatic } = options;
+
+    const names = [];
+    for (const member of decorated.members) {
+      if (
+        !ts.isMethodDeclaration(member) &&
+        !ts.isGetAccessorDeclaration(member) &&
+        !ts.isSetAccessorDeclaration(member)
+      ) {
+        continue;
+      }
+
+      const isStatic = ts
+        .getModifiers(member)
+        ?.some((modifier) => modifier.kind === ts.SyntaxKind.StaticKeyword);
+      const name = getPropertyName(member.name);
+      if (
+        name === undefined ||
+        (isStatic && includeStatic !== true) ||
+        (Array.isArray(include) && !include.includes(name)) ||
+        (Array.isArray(exclude) && exclude.includes(name))
+      ) {
+        continue;
+      }
+
+      const memberName = className ? `${className}.${name}` : name;
+      names.push(
+        ts.isMethodDeclaration(member)
+          ? memberName
+          : getAccessorName(memberName, member),
+      );
+    }
+
+    return names;
+  }
+
+  return [undefined];
+}
+
+/**
+ * Returns the names of the functions that `instrumentObject()` instruments:
+ * the function-valued properties of the object, except for classes and
+ * accessors.
+ */
+function getObjectFunctionNames(
+  target: ts.Expression,
+  checker: ts.TypeChecker,
+): Array<string> {
+  const names = [];
+  for (const property of checker.getTypeAtLocation(target).getProperties()) {
+    const resolved =
+      property.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(property)
+        : property;
+    if (resolved.flags & ts.SymbolFlags.Accessor) {
+      continue;
+    }
+
+    const type = checker.getTypeOfSymbolAtLocation(resolved, target);
+    if (
+      type.getCallSignatures().length > 0 &&
+      type.getConstructSignatures().length === 0
+    ) {
+      names.push(property.name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Applies the `include` and `exclude` options of `instrumentObject()`,
+ * returning `undefined` if they cannot be evaluated statically.
+ */
+function isMemberIncluded(
+  options: Record<string, unknown>,
+  name: string,
+): boolean | undefined {
+  const { include, exclude } = options;
+  if (
+    (include !== undefined && !Array.isArray(include)) ||
+    (exclude !== undefined && !Array.isArray(exclude))
+  ) {
+    return undefined;
+  }
+
+  return (!include || include.includes(name)) && !exclude?.includes(name);
+}
+
+function getAccessorName(
+  name: string,
+  accessor: ts.GetAccessorDeclaration | ts.SetAccessorDeclaration,
+): string {
+  return `${name}.${ts.isGetAccessorDeclaration(accessor) ? "get" : "set"}`;
+}
+
+/**
+ * Returns the name of a function passed to `autometrics()`, which is either a
+ * named function expression or a reference to a function.
+ */
+function getFunctionName(node: ts.Expression): string | undefined {
+  if (ts.isFunctionExpression(node)) {
+    return node.name?.text;
+  }
+
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+
+  if (ts.isPropertyAccessExpression(node)) {
+    return node.name.text;
+  }
+}
+
+function getLocation(node: ts.Node): UnresolvedObjective {
+  const sourceFile = node.getSourceFile();
+  return {
+    fileName: sourceFile.fileName,
+    line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1,
+  };
+}
+
+function getCalleeName(node: ts.CallExpression): string | undefined {
+  const callee = node.expression;
+  if (ts.isIdentifier(callee)) {
+    return callee.text;
+  }
+
+  if (ts.isPropertyAccessExpression(callee)) {
+    return callee.name.text;
+  }
+}
+
+function getPropertyName(name: ts.PropertyName): string | undefined {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name) ||
+    ts.isPrivateIdentifier(name)
+  ) {
+    return name.text;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks that a value looks like an objective, without any unknown parts.
+ * Whether the percentiles and thresholds are valid is checked when the rules
+ * are generated.
+ */
+function isObjective(value: unknown): value is Objective {
+  return (
+    isRecord(value) && typeof value.name === "string" && !containsUnknown(value)
+  );
+}
+
+function containsUnknown(value: unknown): boolean {
+  if (value === UNKNOWN) {
+    return true;
+  }
+
+  if (Array.isArray(value)) {
+    return value.some(containsUnknown);
+  }
+
+  if (isRecord(value)) {
+    return Object.values(value).some(containsUnknown);
+  }
+
+  return false;
+}
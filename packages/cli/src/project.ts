@@ -0,0 +1,37 @@
+import ts from "typescript";
+
+/**
+ * Creates a program for the TypeScript project described by the given
+ * `tsconfig.json` file.
+ *
+ * Throws if the configuration cannot be read.
+ */
+export function loadProject(configPath: string): ts.Program {
+  const diagnostics: Array<ts.Diagnostic> = [];
+  const config = ts.getParsedCommandLineOfConfigFile(
+    configPath,
+    {},
+    {
+      ...ts.sys,
+      onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+        diagnostics.push(diagnostic);
+      },
+    },
+  );
+
+  if (!config || diagnostics.length > 0 || config.errors.length > 0) {
+    throw new Error(
+      ts.formatDiagnostics([...diagnostics, ...(config?.errors ?? [])], {
+        getCanonicalFileName: (fileName) => fileName,
+        getCurrentDirectory: ts.sys.getCurrentDirectory,
+        getNewLine: () => ts.sys.newLine,
+      }),
+    );
+  }
+
+  return ts.createProgram({
+    rootNames: config.fileNames,
+    options: config.options,
+    projectReferences: config.projectReferences,
+  });
+}
@@ -0,0 +1,35 @@
+import {
+  ErrorRatioOptions,
+  Objective,
+  formatPrometheusRules,
+  generateAlertingRules,
+  generateRecordingRules,
+} from "@autometrics/autometrics";
+
+const RULES_FILE_HEADER = `# Generated by \`autometrics rules generate\`. Do not edit this file by hand,
+# change the objectives in the code and generate it again instead.
+`;
+
+/**
+ * Generates a Prometheus rules file containing the recording rules and the
+ * multi-window, multi-burn-rate alerts for the given objectives.
+ *
+ * Objectives are sorted by name, so that the file does not change when code is
+ * moved around.
+ */
+export function generateRulesFile(
+  objectives: Array<Objective>,
+  options: ErrorRatioOptions = {},
+): string {
+  const sortedObjectives = [...objectives].sort((a, b) =>
+    a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+  );
+
+  return (
+    RULES_FILE_HEADER +
+    formatPrometheusRules([
+      ...generateRecordingRules(sortedObjectives, options),
+      ...generateAlertingRules(sortedObjectives),
+    ])
+  );
+}
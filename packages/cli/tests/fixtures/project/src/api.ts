@@ -0,0 +1,46 @@
+import { Autometrics, autometrics } from "@autometrics/autometrics";
+
+import { API_SLO as apiSlo, CHECKOUT_SLO } from "./objectives";
+
+export const getUser = autometrics(
+  { objective: apiSlo },
+  async function getUser(id: string) {
+    return { id };
+  },
+);
+
+async function checkout() {}
+
+export const instrumentedCheckout = autometrics(
+  { objective: CHECKOUT_SLO, functionName: "checkoutCart" },
+  checkout,
+);
+
+export const uninstrumentedObjective = autometrics(
+  { objective: createObjective() },
+  async function dynamic() {},
+);
+
+export const withoutObjective = autometrics(async function plain() {});
+
+@Autometrics({ objective: apiSlo, exclude: ["health"] })
+export class UserController {
+  getUsers() {}
+
+  health() {}
+
+  get pageSize() {
+    return 10;
+  }
+
+  set pageSize(_value: number) {}
+}
+
+export class OrderController {
+  @Autometrics({ objective: { name: "orders", successRate: "99.9" } })
+  createOrder() {}
+}
+
+function createObjective() {
+  return { name: "dynamic" };
+}
@@ -0,0 +1,18 @@
+import {
+  Objective,
+  ObjectiveLatency,
+  ObjectivePercentile,
+} from "@autometrics/autometrics";
+
+export const API_SLO: Objective = {
+  name: "api",
+  successRate: ObjectivePercentile.P99,
+  latency: [ObjectiveLatency.Ms250, ObjectivePercentile.P99],
+};
+
+const CHECKOUT_PERCENTILE = 99.95;
+
+export const CHECKOUT_SLO = {
+  name: "checkout",
+  successRate: CHECKOUT_PERCENTILE,
+} satisfies Objective;
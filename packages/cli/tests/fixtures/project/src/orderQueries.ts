@@ -0,0 +1,11 @@
+export async function listOrders() {
+  return [];
+}
+
+export const countOrders = async () => 0;
+
+export function internalQuery() {}
+
+export class Order {}
+
+export const PAGE_SIZE = 20;
@@ -0,0 +1,34 @@
+import { instrumentModule, instrumentObject } from "@autometrics/autometrics";
+
+import * as orderQueries from "./orderQueries";
+
+const REPOSITORY_SLO = { name: "repository", successRate: "99.9" };
+
+export const userRepository = instrumentObject(
+  {
+    async findUser(id: string) {
+      return { id };
+    },
+    saveUser: async () => {},
+    tableName: "users",
+  },
+  {
+    objective: REPOSITORY_SLO,
+    overrides: {
+      saveUser: {
+        objective: { name: "writes", successRate: "99" },
+        functionName: "storeUser",
+      },
+    },
+  },
+);
+
+export const orderRepository = instrumentModule(orderQueries, {
+  objective: REPOSITORY_SLO,
+  exclude: ["internalQuery"],
+});
+
+export const healthChecks = instrumentObject(
+  { ping() {} },
+  { objective: REPOSITORY_SLO, include: (name) => name !== "ping" },
+);
@@ -0,0 +1,88 @@
+import { join } from "node:path";
+import { generateSlothSpec } from "@autometrics/autometrics";
+import { describe, expect, test } from "vitest";
+
+import { findObjectives } from "../src/objectives";
+import { loadProject } from "../src/project";
+import { generateRulesFile } from "../src/rules";
+
+const PROJECT_PATH = join(__dirname, "fixtures", "project", "tsconfig.json");
+
+describe("findObjectives test", () => {
+  const { objectives, unresolved } = findObjectives(loadProject(PROJECT_PATH));
+
+  test("finds objectives passed to the wrappers and the decorator", () => {
+    expect(
+      objectives.map(({ objective, functionName }) => ({
+        name: objective.name,
+        functionName,
+      })),
+    ).toEqual([
+      { name: "api", functionName: "getUser" },
+      { name: "checkout", functionName: "checkoutCart" },
+      { name: "api", functionName: "UserController.getUsers" },
+      { name: "api", functionName: "UserController.pageSize.get" },
+      { name: "api", functionName: "UserController.pageSize.set" },
+      { name: "orders", functionName: "createOrder" },
+      { name: "repository", functionName: "findUser" },
+      { name: "writes", functionName: "storeUser" },
+      { name: "repository", functionName: "listOrders" },
+      { name: "repository", functionName: "countOrders" },
+    ]);
+  });
+
+  test("resolves imported constants and enum members", () => {
+    expect(objectives[0].objective).toEqual({
+      name: "api",
+      successRate: "99",
+      latency: ["0.25", "99"],
+    });
+    expect(objectives[1].objective).toEqual({
+      name: "checkout",
+      successRate: 99.95,
+    });
+  });
+
+  test("reports objectives that cannot be evaluated statically", () => {
+    expect(unresolved).toHaveLength(2);
+    expect(unresolved[0].fileName).toMatch(/api\.ts$/);
+    expect(unresolved[0].line).toBe(20);
+    // The functions filtered by `include` cannot be determined statically.
+    expect(unresolved[1].fileName).toMatch(/repositories\.ts$/);
+    expect(unresolved[1].line).toBe(33);
+  });
+
+  test("generates rules for the objectives found", () => {
+    const rules = generateRulesFile(
+      objectives.map(({ objective }) => objective),
+    );
+
+    expect(rules).toMatch(/^# Generated by `autometrics rules generate`/);
+    expect(
+      [...rules.matchAll(/- name: "(.+)"/g)].map(([, name]) => name),
+    ).toEqual([
+      "autometrics-slo-api",
+      "autometrics-slo-checkout",
+      "autometrics-slo-orders",
+      "autometrics-slo-repository",
+      "autometrics-slo-writes",
+      "autometrics-slo-alerts-api",
+      "autometrics-slo-alerts-checkout",
+      "autometrics-slo-alerts-orders",
+      "autometrics-slo-alerts-repository",
+      "autometrics-slo-alerts-writes",
+    ]);
+    expect(rules).toContain('- alert: "HighLatency"');
+  });
+
+  test("exports the objectives with the functions that use them", () => {
+    const spec = generateSlothSpec(objectives, { service: "shop" });
+
+    expect(spec).toContain(
+      'description: "Autometrics objective api, used by getUser, UserController.getUsers, UserController.pageSize.get, UserController.pageSize.set"',
+    );
+    expect(spec).toContain(
+      'description: "Autometrics objective orders, used by createOrder"',
+    );
+  });
+});
@@ -1,6 +1,8 @@
 import {
+  AutometricsSettings,
   BuildInfo,
   amLogger,
+  configure,
   createDefaultBuildInfo,
   recordBuildInfo,
 } from "@autometrics/autometrics";
@@ -16,7 +18,7 @@ export { AggregationTemporalityPreference };
 
 const MAX_SAFE_INTERVAL = 2 ** 31 - 1;
 
-export type InitOptions = {
+export type InitOptions = AutometricsSettings & {
   /**
    * URL of the OpenTelemetry Collector to push metrics to. Should be a
    * complete url with port and `/v1/metrics` endpoint:
@@ -59,6 +61,15 @@ export type InitOptions = {
    */
   temporalityPreference?: AggregationTemporalityPreference;
 
+  /**
+   * Record the histograms as OpenTelemetry exponential histograms, instead of
+   * histograms with explicit bucket boundaries. Exponential histograms adapt
+   * their buckets to the recorded durations, so they don't need to be
+   * configured through the `histogramBuckets` setting. Latency objectives
+   * cannot be evaluated from exponential histograms. (default: `false`)
+   */
+  exponentialHistograms?: boolean;
+
   /**
    * Optional build info to be added to the `build_info` metric.
    */
@@ -75,8 +86,26 @@ export function init({
   concurrencyLimit,
   timeout = 1000,
   temporalityPreference = AggregationTemporalityPreference.CUMULATIVE,
+  exponentialHistograms,
   buildInfo,
+  legacyCallerLabel,
+  contextManager,
+  specVersion,
+  namespace,
+  serviceName,
+  resource,
+  histogramBuckets,
 }: InitOptions) {
+  configure({
+    legacyCallerLabel,
+    contextManager,
+    specVersion,
+    namespace,
+    serviceName,
+    resource,
+    histogramBuckets,
+  });
+
   const defaultPath = "/v1/metrics" as const;
   const defaultPort = "4317" as const;
 
@@ -117,6 +146,7 @@ export function init({
         exportIntervalMillis: pushInterval,
         exportTimeoutMillis: timeout,
       }),
+      exponentialHistograms,
     });
   } else if (pushInterval === 0) {
     amLogger.debug("Configuring Autometrics to push metrics eagerly");
@@ -130,6 +160,7 @@ export function init({
     registerExporterInternal({
       metricReader,
       metricsRecorded: () => metricReader.forceFlush(),
+      exponentialHistograms,
     });
   } else {
     throw new Error(`Invalid pushInterval: ${pushInterval}`);
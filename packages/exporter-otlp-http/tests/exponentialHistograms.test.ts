@@ -0,0 +1,55 @@
+import { DataPointType } from "@opentelemetry/sdk-metrics";
+import { describe, expect, test, vi } from "vitest";
+
+import {
+  ObjectiveLatency,
+  ObjectivePercentile,
+  autometrics,
+} from "@autometrics/autometrics";
+import { HISTOGRAM_NAME } from "../../autometrics/src/constants";
+import { init } from "../src/index";
+import { metricReader } from "../src/registerExporterInternal";
+
+describe("exponential histograms test", () => {
+  test("records exponential histograms when enabled", async () => {
+    init({
+      url: "http://localhost:4317",
+      pushInterval: 5000,
+      exponentialHistograms: true,
+    });
+
+    const fn = autometrics(function exponential() {});
+    fn();
+
+    const collectionResult = await metricReader?.collect();
+
+    const histogramMetric =
+      collectionResult?.resourceMetrics.scopeMetrics[0].metrics.find(
+        (metric) => metric.descriptor.name === HISTOGRAM_NAME,
+      );
+
+    expect(histogramMetric?.dataPointType).toBe(
+      DataPointType.EXPONENTIAL_HISTOGRAM,
+    );
+  });
+
+  test("warns about latency objectives instead of checking the buckets", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    autometrics(
+      {
+        objective: {
+          name: "api",
+          latency: [ObjectiveLatency.Ms250, ObjectivePercentile.P99],
+        },
+      },
+      function exponentialApiHandler() {},
+    );
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("exponential histograms"),
+    );
+    warn.mockRestore();
+  });
+});
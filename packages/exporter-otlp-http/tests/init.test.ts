@@ -35,8 +35,10 @@ describe("init test", () => {
     expect(counterMetric.dataPoints[0].value).toBe(2);
     expect(counterMetric.dataPoints[0].attributes).toMatchInlineSnapshot(`
       {
-        "caller": undefined,
-        "function": "bar",
+        "caller_function": "",
+        "caller_module": "",
+        "error_kind": "",
+        "function": "Foo.bar",
         "module": "/packages/exporter-otlp-http/tests/init.test.ts",
         "objective_name": "",
         "objective_percentile": "",
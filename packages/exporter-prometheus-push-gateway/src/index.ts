@@ -1,6 +1,8 @@
 import {
+  AutometricsSettings,
   BuildInfo,
   amLogger,
+  configure,
   createDefaultBuildInfo,
   recordBuildInfo,
   registerExporter,
@@ -11,7 +13,7 @@ import { PushGatewayExporter } from "./pushGatewayExporter";
 
 const MAX_SAFE_INTERVAL = 2 ** 31 - 1;
 
-export type InitOptions = {
+export type InitOptions = AutometricsSettings & {
   /**
    * The full URL (including https://) of the aggregating push gateway for
    * metrics to be submitted to.
@@ -61,7 +63,24 @@ export function init({
   concurrencyLimit,
   timeout = 1000,
   buildInfo,
+  legacyCallerLabel,
+  contextManager,
+  specVersion,
+  namespace,
+  serviceName,
+  resource,
+  histogramBuckets,
 }: InitOptions) {
+  configure({
+    legacyCallerLabel,
+    contextManager,
+    specVersion,
+    namespace,
+    serviceName,
+    resource,
+    histogramBuckets,
+  });
+
   if (typeof fetch === "undefined") {
     amLogger.warn(
       "Fetch is undefined, cannot push metrics to gateway. Consider adding a global polyfill.",
@@ -1,13 +1,17 @@
+import { createServer } from "node:http";
 import {
+  AutometricsSettings,
   BuildInfo,
   amLogger,
+  configure,
   createDefaultBuildInfo,
+  getInstrumentedFunctions,
   recordBuildInfo,
   registerExporter,
 } from "@autometrics/autometrics";
 import { PrometheusExporter } from "@opentelemetry/exporter-prometheus";
 
-export type InitOptions = {
+export type InitOptions = AutometricsSettings & {
   /**
    * Optional build info to be added to the `build_info` metric.
    */
@@ -17,6 +21,14 @@ export type InitOptions = {
    * Port on which to open the Prometheus scrape endpoint (default: 9464).
    */
   port?: number;
+
+  /**
+   * Path of an endpoint on the same port that lists the instrumented functions
+   * as JSON, such as `"/debug/functions"`. This can be used to verify which
+   * functions are instrumented, for example in a staging environment. The
+   * endpoint is disabled by default.
+   */
+  debugEndpoint?: string;
 };
 
 /**
@@ -25,10 +37,83 @@ export type InitOptions = {
  * This opens up a webserver with the `/metrics` endpoint, to be scraped by
  * Prometheus.
  */
-export function init({ buildInfo, port = 9464 }: InitOptions = {}) {
+export function init({
+  buildInfo,
+  port = 9464,
+  debugEndpoint,
+  legacyCallerLabel,
+  contextManager,
+  specVersion,
+  namespace,
+  serviceName,
+  resource,
+  histogramBuckets,
+}: InitOptions = {}) {
+  configure({
+    legacyCallerLabel,
+    contextManager,
+    specVersion,
+    namespace,
+    serviceName,
+    resource,
+    histogramBuckets,
+  });
+
   amLogger.info(`Opening a Prometheus scrape endpoint at port ${port}`);
 
-  registerExporter({ metricReader: new PrometheusExporter({ port }) });
+  registerExporter({
+    metricReader: debugEndpoint
+      ? createExporterWithDebugEndpoint(port, debugEndpoint)
+      : new PrometheusExporter({ port }),
+  });
 
   recordBuildInfo(buildInfo ?? createDefaultBuildInfo());
 }
+
+/**
+ * Creates an exporter with a webserver that serves the debug endpoint next to
+ * the scrape endpoint. The webserver of the OpenTelemetry exporter itself only
+ * serves the scrape endpoint.
+ *
+ * @internal
+ */
+export function createExporterWithDebugEndpoint(
+  port: number,
+  debugEndpoint: string,
+): PrometheusExporter {
+  const exporter = new PrometheusExporter({ port, preventServerStart: true });
+  const debugPath = debugEndpoint.replace(/^([^/])/, "/$1");
+
+  const server = createServer((request, response) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+
+    if (pathname === PrometheusExporter.DEFAULT_OPTIONS.endpoint) {
+      exporter.getMetricsRequestHandler(request, response);
+    } else if (pathname === debugPath) {
+      response.statusCode = 200;
+      response.setHeader("content-type", "application/json");
+      response.end(JSON.stringify({ functions: getInstrumentedFunctions() }));
+    } else {
+      response.statusCode = 404;
+      response.end();
+    }
+  });
+
+  server.on("error", (error) => {
+    amLogger.warn(`Could not open the Prometheus scrape endpoint: ${error}`);
+  });
+
+  // Like the webserver of the OpenTelemetry exporter, this one does not keep
+  // the process running.
+  server.unref().listen(port);
+
+  // The exporter only stops its own webserver when it is shut down, which is
+  // never started, so this one is closed along with it.
+  const onShutdown = exporter.onShutdown.bind(exporter);
+  exporter.onShutdown = async () => {
+    await onShutdown();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  };
+
+  return exporter;
+}
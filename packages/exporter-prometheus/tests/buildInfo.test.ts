@@ -4,7 +4,11 @@ import {
   AggregationTemporality,
 } from "@opentelemetry/sdk-metrics";
 import { afterEach, beforeAll, describe, expect, test } from "vitest";
-import { recordBuildInfo, registerExporter } from "@autometrics/autometrics";
+import {
+  recordBuildInfo,
+  registerExporter,
+  updateBuildInfo,
+} from "@autometrics/autometrics";
 
 import { collectAndSerialize } from "./util";
 
@@ -33,10 +37,31 @@ describe("Autometrics build info tests", () => {
 
   test("build info is recorded", async () => {
     const buildInfoMetric =
-      /build_info{version="1.0.0",commit="123456789",branch="main",clearmode=""}/gm;
+      /build_info{version="1.0.0",commit="123456789",branch="main",repo_url="",repo_provider="",clearmode="",service_name="[^"]*"}/gm;
 
     const serialized = await collectAndSerialize(metricReader);
 
     expect(serialized).toMatch(buildInfoMetric);
   });
+
+  test("recording the build info again replaces it", async () => {
+    recordBuildInfo(buildInfo);
+    recordBuildInfo({ ...buildInfo, version: "1.0.1" });
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    expect(serialized.match(/^build_info{/gm)).toHaveLength(1);
+    expect(serialized).toMatch(/^build_info{version="1.0.1",.*} 1/gm);
+  });
+
+  test("build info can be updated at runtime", async () => {
+    updateBuildInfo({ customLabels: { slot: "green" } });
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    expect(serialized.match(/^build_info{/gm)).toHaveLength(1);
+    expect(serialized).toMatch(
+      /^build_info{version="1.0.1",commit="123456789",.*,slot="green"} 1/gm,
+    );
+  });
 });
@@ -0,0 +1,73 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test } from "vitest";
+import { autometrics, registerExporter } from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+function sleep(ms: number, { signal }: { signal?: AbortSignal } = {}) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+describe("Autometrics cancellation tests", () => {
+  beforeAll(async () => {
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("records aborted calls as cancelled", async () => {
+    const abortableFn = autometrics(function abortable(options: {
+      signal: AbortSignal;
+    }) {
+      return sleep(1000, options);
+    });
+
+    const controller = new AbortController();
+    const promise = abortableFn({ signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toThrowError();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="abortable"\S*result="cancelled"\S*\} 1/gm,
+    );
+    expect(serialized).not.toMatch(
+      /function_calls_total\{\S*function="abortable"\S*result="error"\S*\} 1/gm,
+    );
+  });
+
+  test("records calls that take too long as timed out", async () => {
+    const slowFn = autometrics({ timeout: 10 }, function slow() {
+      return sleep(50);
+    });
+
+    await slowFn();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="slow"\S*result="timeout"\S*\} 1/gm,
+    );
+    expect(serialized).not.toMatch(
+      /function_calls_total\{\S*function="slow"\S*result="ok"\S*\} 1/gm,
+    );
+  });
+});
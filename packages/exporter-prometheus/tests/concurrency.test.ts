@@ -4,7 +4,11 @@ import {
   PeriodicExportingMetricReader,
 } from "@opentelemetry/sdk-metrics";
 import { afterEach, beforeAll, describe, expect, test } from "vitest";
-import { autometrics, registerExporter } from "@autometrics/autometrics";
+import {
+  ConcurrencyLimitError,
+  autometrics,
+  registerExporter,
+} from "@autometrics/autometrics";
 
 import { collectAndSerialize } from "./util";
 
@@ -44,4 +48,169 @@ describe("Autometrics concurrency tests", () => {
 
     expect(serialized).toMatch(concurrencyCountFinishedMetric);
   });
+
+  test("decreases the concurrency gauge for failed calls", async () => {
+    const failingFn = autometrics(
+      { trackConcurrency: true },
+      async function failing() {
+        throw new Error("failed");
+      },
+    );
+
+    await expect(failingFn()).rejects.toThrow("failed");
+    await expect(failingFn()).rejects.toThrow("failed");
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_concurrent\{function="failing",module="\/packages\/exporter-prometheus\/tests\/concurrency.test.ts"\} 0/gm,
+    );
+    expect(serialized).not.toMatch(
+      /function_calls_concurrent\{\S*function="failing"\S*caller\S*\}/gm,
+    );
+  });
+
+  test("counts timed out calls as concurrent until they finish", async () => {
+    const slowFn = autometrics(
+      { trackConcurrency: true, timeout: 10 },
+      async function slowConcurrent() {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      },
+    );
+
+    const call = slowFn();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="slowConcurrent"\S*result="timeout"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_concurrent\{\S*function="slowConcurrent"\S*\} 1/gm,
+    );
+
+    await call;
+  });
+
+  test("tracks the peak concurrency per collection", async () => {
+    const burstFn = autometrics(
+      { trackConcurrency: true },
+      async function burst() {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      },
+    );
+
+    await Promise.all([burstFn(), burstFn(), burstFn()]);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_concurrent\{\S*function="burst"\S*\} 0/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_concurrent_peak\{\S*function="burst"\S*\} 3/gm,
+    );
+
+    await metricReader.forceFlush();
+    const nextSerialized = await collectAndSerialize(metricReader);
+    expect(nextSerialized).toMatch(
+      /function_calls_concurrent_peak\{\S*function="burst"\S*\} 0/gm,
+    );
+  });
+
+  test("shares the concurrency between wrappers of the same function", async () => {
+    const wrap = () =>
+      autometrics({ trackConcurrency: true }, async function shared() {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      });
+
+    await Promise.all([wrap()(), wrap()()]);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_concurrent_peak\{\S*function="shared"\S*\} 2/gm,
+    );
+    expect(
+      serialized.match(
+        /function_calls_concurrent_peak\{\S*function="shared"/gm,
+      ),
+    ).toHaveLength(1);
+  });
+
+  test("queues calls that exceed the maximum concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const limitedFn = autometrics(
+      { maxConcurrency: 2, queue: 2 },
+      async function limited() {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+        return "done";
+      },
+    );
+
+    const results = await Promise.all([
+      limitedFn(),
+      limitedFn(),
+      limitedFn(),
+      limitedFn(),
+    ]);
+
+    expect(results).toEqual(["done", "done", "done", "done"]);
+    expect(maxRunning).toBe(2);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="limited"\S*result="ok"\S*\} 4/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_queue_wait_time_count\{\S*function="limited"\S*\} 2/gm,
+    );
+  });
+
+  test("rejects calls when the queue is full", async () => {
+    const rejectingFn = autometrics(
+      { maxConcurrency: 1 },
+      async function rejecting() {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      },
+    );
+
+    const first = rejectingFn();
+    await expect(rejectingFn()).rejects.toBeInstanceOf(ConcurrencyLimitError);
+    await first;
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="rejecting"\S*result="ok"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="rejecting"\S*result="rejected"\S*\} 1/gm,
+    );
+  });
+
+  test("removes aborted calls from the queue", async () => {
+    let calls = 0;
+    const abortableFn = autometrics(
+      { maxConcurrency: 1, queue: 1 },
+      async function abortable(_options: { signal?: AbortSignal }) {
+        calls++;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      },
+    );
+
+    const controller = new AbortController();
+    const first = abortableFn({});
+    const second = abortableFn({ signal: controller.signal });
+    controller.abort();
+
+    await expect(second).rejects.toThrow();
+    await first;
+    expect(calls).toBe(1);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="abortable"\S*result="cancelled"\S*\} 1/gm,
+    );
+  });
 });
@@ -0,0 +1,133 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test } from "vitest";
+import {
+  ConcurrencyLimitError,
+  autometrics,
+  isInstrumentationEnabled,
+  registerExporter,
+  setInstrumentationEnabled,
+} from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+describe("Autometrics sampling and control tests", () => {
+  beforeAll(async () => {
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("counts every call, but only records sampled durations", async () => {
+    const unsampledFn = autometrics({ sampleRate: 0 }, function unsampled() {});
+
+    unsampledFn();
+    unsampledFn();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="unsampled"\S*\} 2/gm,
+    );
+    expect(serialized).not.toMatch(
+      /function_calls_duration_count\{\S*function="unsampled"\S*\}/gm,
+    );
+  });
+
+  test("passes calls through when disabled", async () => {
+    const toggledFn = autometrics(function toggled(value: number) {
+      return value * 2;
+    });
+
+    setInstrumentationEnabled({ function: "toggled" }, false);
+    expect(isInstrumentationEnabled("toggled")).toBe(false);
+    expect(toggledFn(1)).toBe(2);
+    expect(toggledFn(2)).toBe(4);
+
+    setInstrumentationEnabled({ function: "toggled" }, true);
+    expect(toggledFn(3)).toBe(6);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="toggled"\S*result="ok"\S*\} 1/gm,
+    );
+  });
+
+  test("still limits the concurrency of disabled functions", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const limitedFn = autometrics(
+      { maxConcurrency: 1, queue: 2 },
+      async function disabledLimited() {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+      },
+    );
+
+    setInstrumentationEnabled({ function: "disabledLimited" }, false);
+    const calls = [limitedFn(), limitedFn(), limitedFn()];
+    await expect(limitedFn()).rejects.toBeInstanceOf(ConcurrencyLimitError);
+    await Promise.all(calls);
+    setInstrumentationEnabled({ function: "disabledLimited" }, true);
+
+    expect(maxRunning).toBe(1);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).not.toMatch(
+      /function_calls_total\{\S*function="disabledLimited"\S*\} [1-9]/gm,
+    );
+  });
+
+  test("disables whole modules, with exceptions", async () => {
+    const module = "/packages/exporter-prometheus/tests/controls.test.ts";
+    const firstFn = autometrics(function first() {});
+    const secondFn = autometrics(function second() {});
+
+    setInstrumentationEnabled({ module }, false);
+    setInstrumentationEnabled({ function: "second", module }, true);
+
+    firstFn();
+    secondFn();
+
+    setInstrumentationEnabled({ module }, true);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).not.toMatch(
+      /function_calls_total\{\S*function="first"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="second"\S*\} 1/gm,
+    );
+  });
+
+  test("lets the most specific selector win", async () => {
+    const module = "/packages/exporter-prometheus/tests/controls.test.ts";
+    const importantFn = autometrics(function important() {});
+
+    setInstrumentationEnabled({ function: "important" }, true);
+    setInstrumentationEnabled({ module }, false);
+
+    expect(isInstrumentationEnabled("important", module)).toBe(true);
+    expect(isInstrumentationEnabled("unimportant", module)).toBe(false);
+    importantFn();
+
+    setInstrumentationEnabled({ module }, true);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="important"\S*\} 1/gm,
+    );
+  });
+});
@@ -0,0 +1,297 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { join } from "node:path";
+import { runInThisContext } from "node:vm";
+import { afterEach, beforeAll, describe, expect, test } from "vitest";
+import * as autometricsModule from "@autometrics/autometrics";
+import ts from "typescript";
+
+import { collectAndSerialize } from "./util";
+
+const { Autometrics, getInstrumentedFunctions, registerExporter, unwrap } =
+  autometricsModule;
+
+let metricReader: PeriodicExportingMetricReader;
+
+// Vitest compiles decorators using the legacy `experimentalDecorators`
+// semantics, so we invoke the decorator the way the TC39 standard does.
+function standardContext<K extends DecoratorContext["kind"]>(
+  kind: K,
+  name: string,
+) {
+  return {
+    kind,
+    name,
+    static: false,
+    private: false,
+    addInitializer() {},
+    metadata: {},
+  } as unknown as Extract<DecoratorContext, { kind: K }>;
+}
+
+/**
+ * Compiles the source with the TC39 standard decorators of TypeScript 5, and
+ * runs it as if it were a module in this directory.
+ */
+function runWithStandardDecorators(source: string): Record<string, unknown> {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      experimentalDecorators: false,
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+
+  const exports: Record<string, unknown> = {};
+  const require = (id: string) => {
+    if (id !== "@autometrics/autometrics") {
+      throw new Error(`Cannot find module ${id}`);
+    }
+
+    return autometricsModule;
+  };
+
+  runInThisContext(`(function (exports, require) {\n${outputText}\n})`, {
+    filename: join(__dirname, "standardDecorators.ts"),
+  })(exports, require);
+  return exports;
+}
+
+describe("Autometrics decorator tests", () => {
+  beforeAll(async () => {
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("standard method decorator", async () => {
+    const method = Autometrics()(function () {
+      return "bar";
+    }, standardContext("method", "standardMethod"));
+
+    expect(method()).toBe("bar");
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="standardMethod"\S*\} 1/gm,
+    );
+  });
+
+  test("standard auto-accessor decorator", async () => {
+    let value = 1;
+    const { get, set } = Autometrics()(
+      {
+        get: () => value,
+        set: (newValue: number) => {
+          value = newValue;
+        },
+      },
+      standardContext("accessor", "standardAccessor"),
+    );
+
+    set?.call(undefined, 2);
+    expect(get?.call(undefined)).toBe(2);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="standardAccessor.get"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="standardAccessor.set"\S*\} 1/gm,
+    );
+  });
+
+  test("standard class decorator", async () => {
+    class Foo {
+      standardClassMethod() {}
+    }
+
+    Autometrics()(Foo, standardContext("class", "Foo"));
+    new Foo().standardClassMethod();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Foo.standardClassMethod"\S*\} 1/gm,
+    );
+  });
+
+  test("transpiled standard decorators", async () => {
+    const { Greeter } = runWithStandardDecorators(`
+      import { Autometrics } from "@autometrics/autometrics";
+
+      export class Greeter {
+        constructor(greeting) {
+          this.greeting = greeting;
+        }
+
+        @Autometrics()
+        greet(name) {
+          return this.greeting + " " + name;
+        }
+
+        @Autometrics()
+        handle = (name) => this.greet(name);
+      }
+    `) as {
+      Greeter: new (greeting: string) => { handle(name: string): string };
+    };
+
+    const hello = new Greeter("hello");
+    const hi = new Greeter("hi");
+    expect(hello.handle("world")).toBe("hello world");
+    expect(hi.handle("world")).toBe("hi world");
+    expect(unwrap(hello.handle)).not.toBe(unwrap(hi.handle));
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="greet"\S*module="\/packages\/exporter-prometheus\/tests\/standardDecorators.ts"\S*\} 2/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="handle"\S*module="\/packages\/exporter-prometheus\/tests\/standardDecorators.ts"\S*\} 2/gm,
+    );
+  });
+
+  test("class decorator with static and excluded methods", async () => {
+    @Autometrics({ includeStatic: true, exclude: ["toString"] })
+    class Bar {
+      static create() {
+        return new Bar();
+      }
+
+      get value() {
+        return 1;
+      }
+
+      toString() {
+        return "Bar";
+      }
+    }
+
+    const bar = Bar.create();
+    expect(bar.value).toBe(1);
+    expect(bar.toString()).toBe("Bar");
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Bar.create"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Bar.value.get"\S*\} 1/gm,
+    );
+    expect(serialized).not.toMatch(/function="Bar.toString"/gm);
+  });
+
+  test("class decorator with a getter and setter pair", async () => {
+    @Autometrics()
+    class Counter {
+      #count = 0;
+
+      get count() {
+        return this.#count;
+      }
+
+      set count(count: number) {
+        this.#count = count;
+      }
+    }
+
+    const counter = new Counter();
+    counter.count = 2;
+    expect(counter.count).toBe(2);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Counter.count.get"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Counter.count.set"\S*\} 1/gm,
+    );
+    expect(
+      getInstrumentedFunctions()
+        .filter((fn) => fn.name.startsWith("Counter.count"))
+        .map(({ name, nameCollision }) => ({ name, nameCollision })),
+    ).toEqual([
+      { name: "Counter.count.get", nameCollision: false },
+      { name: "Counter.count.set", nameCollision: false },
+    ]);
+  });
+
+  test("class decorator with inherited methods", async () => {
+    class Base {
+      greet() {
+        return "base";
+      }
+
+      farewell() {
+        return "bye";
+      }
+    }
+
+    @Autometrics({ includeInherited: true, include: ["greet", "farewell"] })
+    class Child extends Base {
+      greet() {
+        return "child";
+      }
+    }
+
+    const child = new Child();
+    expect(child.greet()).toBe("child");
+    expect(child.farewell()).toBe("bye");
+    new Base().farewell();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Child.greet"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Child.farewell"\S*\} 1/gm,
+    );
+    expect(serialized).not.toMatch(/function="Base.farewell"/gm);
+  });
+
+  test("class decorator with instance fields", async () => {
+    @Autometrics({ instrumentFields: true })
+    class Handler {
+      constructor(public prefix = "hello") {}
+      handle = (name: string) => `${this.prefix} ${name}`;
+    }
+
+    const handler = new Handler();
+    const otherHandler = new Handler("hi");
+    expect(handler).toBeInstanceOf(Handler);
+    expect(Handler.name).toBe("Handler");
+    expect(handler.handle("world")).toBe("hello world");
+    expect(otherHandler.handle("world")).toBe("hi world");
+    expect(unwrap(handler.handle)).not.toBe(unwrap(otherHandler.handle));
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Handler.handle"\S*module="\/packages\/exporter-prometheus\/tests\/decorators.test.ts"\S*\} 2/gm,
+    );
+  });
+
+  test("legacy getter decorator", async () => {
+    class Foo {
+      @Autometrics()
+      get legacyGetter() {
+        return "bar";
+      }
+    }
+
+    expect(new Foo().legacyGetter).toBe("bar");
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="legacyGetter.get"\S*module="\/packages\/exporter-prometheus\/tests\/decorators.test.ts"\S*\} 1/gm,
+    );
+  });
+});
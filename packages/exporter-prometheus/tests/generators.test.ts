@@ -0,0 +1,111 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test } from "vitest";
+import { autometrics, registerExporter } from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+describe("Autometrics generator tests", () => {
+  beforeAll(async () => {
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("records generators once they are consumed", async () => {
+    const countFn = autometrics(function* count(limit: number) {
+      for (let i = 0; i < limit; i++) {
+        yield i;
+      }
+    });
+
+    const generator = countFn(3);
+
+    const pendingSerialized = await collectAndSerialize(metricReader);
+    expect(pendingSerialized).not.toMatch(
+      /function_calls_total\{\S*function="count"\S*\} 1/gm,
+    );
+
+    expect([...generator]).toEqual([0, 1, 2]);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="count"\S*result="ok"\S*\} 1/gm,
+    );
+  });
+
+  test("records generators that are closed early as ok", async () => {
+    const infiniteFn = autometrics(function* infinite() {
+      while (true) {
+        yield 1;
+      }
+    });
+
+    for (const _ of infiniteFn()) {
+      break;
+    }
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="infinite"\S*result="ok"\S*\} 1/gm,
+    );
+  });
+
+  test("records errors thrown during async iteration", async () => {
+    const failingFn = autometrics(async function* failing() {
+      yield 1;
+      throw new Error("Oh no");
+    });
+
+    const consume = async () => {
+      for await (const _ of failingFn()) {
+      }
+    };
+
+    await expect(consume()).rejects.toThrowError("Oh no");
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="failing"\S*result="error"\S*\} 1/gm,
+    );
+  });
+
+  test("returns the original generator object", () => {
+    function* letters() {
+      yield "a";
+    }
+    const lettersFn = autometrics(letters);
+
+    const generator = lettersFn();
+
+    expect(Object.prototype.toString.call(generator)).toBe(
+      "[object Generator]",
+    );
+    expect(generator).toBeInstanceOf(letters);
+    expect([...generator]).toEqual(["a"]);
+  });
+
+  test("records functions returning other iterators right away", async () => {
+    const valuesFn = autometrics(function values() {
+      return [1, 2, 3].values();
+    });
+
+    valuesFn();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="values"\S*result="ok"\S*\} 1/gm,
+    );
+  });
+});
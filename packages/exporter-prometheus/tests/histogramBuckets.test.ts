@@ -0,0 +1,89 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import {
+  ObjectiveLatency,
+  ObjectivePercentile,
+  autometrics,
+  configure,
+  registerExporter,
+} from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+configure({ histogramBuckets: [0.001, 1] });
+
+// Buckets can only be added by functions instrumented before the exporter is
+// registered.
+const batchFn = autometrics(
+  { additionalHistogramBuckets: [60, 300] },
+  function batch() {},
+);
+
+describe("Autometrics histogram buckets tests", () => {
+  beforeAll(async () => {
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+    vi.restoreAllMocks();
+  });
+
+  test("uses the configured and additional buckets", async () => {
+    batchFn();
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    const buckets = [
+      ...serialized.matchAll(
+        /^function_calls_duration_bucket{.*le="([^"]+)"}/gm,
+      ),
+    ].map((match) => match[1]);
+
+    expect(buckets).toEqual(["0.001", "1", "60", "300", "+Inf"]);
+  });
+
+  test("warns when an objective threshold is not a bucket boundary", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    autometrics(
+      {
+        objective: {
+          name: "api",
+          latency: [ObjectiveLatency.Ms250, ObjectivePercentile.P99],
+        },
+      },
+      function apiHandler() {},
+    );
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("threshold of 0.25s"),
+    );
+  });
+
+  test("does not warn when an objective threshold is a bucket boundary", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    autometrics(
+      {
+        objective: {
+          name: "api",
+          latency: [ObjectiveLatency.Ms1000, ObjectivePercentile.P99],
+        },
+      },
+      function fastApiHandler() {},
+    );
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest";
+import {
+  ObjectiveLatency,
+  ObjectivePercentile,
+  autometrics,
+  configure,
+  registerExporter,
+} from "@autometrics/autometrics";
+
+// The thresholds are checked against the buckets that are configured by the
+// time the exporter is registered, not when the functions are instrumented.
+autometrics(
+  { objective: { name: "reports", latency: [300, ObjectivePercentile.P99] } },
+  function generateReport() {},
+);
+
+autometrics(
+  {
+    objective: {
+      name: "api",
+      latency: [ObjectiveLatency.Ms250, ObjectivePercentile.P99],
+    },
+  },
+  function listItems() {},
+);
+
+configure({ histogramBuckets: [1, 10, 60, 300, 600] });
+
+describe("Autometrics latency threshold tests", () => {
+  const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  beforeAll(() => {
+    registerExporter({
+      metricReader: new PeriodicExportingMetricReader({
+        exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+      }),
+    });
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("does not warn about thresholds added to the buckets later", () => {
+    expect(warn).not.toHaveBeenCalledWith(
+      expect.stringContaining("generateReport"),
+    );
+  });
+
+  test("warns about thresholds removed from the buckets later", () => {
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Function listItems has a latency objective with a threshold of 0.25s",
+      ),
+    );
+  });
+});
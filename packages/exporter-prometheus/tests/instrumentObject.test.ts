@@ -0,0 +1,112 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test } from "vitest";
+import {
+  instrumentModule,
+  instrumentObject,
+  registerExporter,
+} from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+describe("Autometrics instrumentObject tests", () => {
+  beforeAll(async () => {
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("instruments every function using the property key", async () => {
+    const repository = instrumentObject(
+      {
+        getUser: (id: string) => ({ id }),
+        deleteUser: function _minified() {
+          throw new Error("not allowed");
+        },
+        tableName: "users",
+      },
+      {
+        recordErrorIf: () => false,
+        overrides: { deleteUser: { recordErrorIf: () => true } },
+      },
+    );
+
+    expect(repository.tableName).toBe("users");
+    expect(repository.getUser("1")).toEqual({ id: "1" });
+    expect(() => repository.deleteUser()).toThrow("not allowed");
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="getUser"\S*module="\/packages\/exporter-prometheus\/tests\/instrumentObject.test.ts"\S*result="ok"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="deleteUser"\S*result="error"\S*\} 1/gm,
+    );
+    expect(serialized).not.toMatch(/function="_minified"/gm);
+  });
+
+  test("filters functions with include and exclude", async () => {
+    const service = instrumentModule(
+      {
+        listOrders: () => [],
+        createOrder: () => ({}),
+        internalHelper: () => {},
+      },
+      { exclude: (name) => name.startsWith("internal") },
+    );
+
+    service.listOrders();
+    service.createOrder();
+    service.internalHelper();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="listOrders"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="createOrder"\S*\} 1/gm,
+    );
+    expect(serialized).not.toMatch(/function="internalHelper"/gm);
+  });
+
+  test("leaves classes untouched", () => {
+    class Order {}
+
+    const instrumented = instrumentObject({ Order });
+
+    expect(instrumented.Order).toBe(Order);
+    expect(new instrumented.Order()).toBeInstanceOf(Order);
+  });
+
+  test("forwards the properties that are not instrumented", () => {
+    const counter = {
+      count: 0,
+      get double() {
+        return this.count * 2;
+      },
+      increment() {
+        counter.count++;
+      },
+    };
+
+    const instrumented = instrumentObject(counter);
+    instrumented.increment();
+
+    expect(instrumented.count).toBe(1);
+    expect(instrumented.double).toBe(2);
+
+    instrumented.count = 5;
+    expect(counter.count).toBe(5);
+  });
+});
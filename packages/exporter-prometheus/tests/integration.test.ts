@@ -6,6 +6,7 @@ import {
 import {
   Autometrics,
   autometrics,
+  errorNameClassifier,
   registerExporter,
 } from "@autometrics/autometrics";
 import { describe, test, expect, beforeAll, afterEach } from "vitest";
@@ -59,11 +60,92 @@ describe("Autometrics integration test", () => {
     expect(serialized).toMatch(errorCountMetric);
   });
 
+  test("single function with classified error", async () => {
+    const errorCountMetric =
+      /function_calls_total\{\S*function="classifiedError"\S*result="error",error_kind="TypeError"\S*\} 1/gm;
+
+    const classifiedErrorFn = autometrics(
+      { classifyError: errorNameClassifier() },
+      function classifiedError() {
+        throw new TypeError("Oh no");
+      },
+    );
+
+    expect(classifiedErrorFn).toThrowError();
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    expect(serialized).toMatch(errorCountMetric);
+  });
+
+  test("single function with more error kinds than allowed", async () => {
+    const otherKindMetric =
+      /function_calls_total\{\S*function="manyErrorKinds"\S*result="error",error_kind="other"\S*\} 2/gm;
+
+    const manyErrorKindsFn = autometrics(
+      {
+        maxErrorKinds: 1,
+        recordErrorIf: (status: number) => `status_${status}`,
+      },
+      function manyErrorKinds(status: number) {
+        return status;
+      },
+    );
+
+    manyErrorKindsFn(400);
+    manyErrorKindsFn(401);
+    manyErrorKindsFn(404);
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="manyErrorKinds"\S*error_kind="status_400"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(otherKindMetric);
+  });
+
+  test("single function with custom labels", async () => {
+    const callCountMetric =
+      /function_calls_total\{\S*function="labelled"\S*tier="free",method="GET"\S*\} 2/gm;
+    const durationMetric =
+      /function_calls_duration_count\{\S*function="labelled"\S*tier="free",method="POST"\S*\} 1/gm;
+
+    const labelledFn = autometrics(
+      { labels: (method: string) => ({ tier: "free", method }) },
+      function labelled(_method: string) {},
+    );
+
+    labelledFn("GET");
+    labelledFn("GET");
+    labelledFn("POST");
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    expect(serialized).toMatch(callCountMetric);
+    expect(serialized).toMatch(durationMetric);
+  });
+
+  test("nested functions record their caller", async () => {
+    const callCountMetric =
+      /function_calls_total\{\S*function="callee"\S*caller_function="caller",caller_module="\/packages\/exporter-prometheus\/tests\/integration.test.ts"\S*\} 1/gm;
+
+    const calleeFn = autometrics(function callee() {});
+    const callerFn = autometrics(function caller() {
+      calleeFn();
+    });
+
+    callerFn();
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    expect(serialized).toMatch(callCountMetric);
+  });
+
   test("class method", async () => {
     const callCountMetric =
-      /function_calls_total\{\S*function="helloWorld"\S*module="\/packages\/exporter-prometheus\/tests\/integration.test.ts"\S*\} 2/gm;
+      /function_calls_total\{\S*function="Foo.helloWorld"\S*module="\/packages\/exporter-prometheus\/tests\/integration.test.ts"\S*\} 2/gm;
     const durationMetric =
-      /function_calls_duration_bucket\{\S*function="helloWorld"\S*module="\/packages\/exporter-prometheus\/tests\/integration.test.ts"\S*\}/gm;
+      /function_calls_duration_bucket\{\S*function="Foo.helloWorld"\S*module="\/packages\/exporter-prometheus\/tests\/integration.test.ts"\S*\}/gm;
 
     // @Autometrics decorator is likely to be used along-side other decorators
     // this tests for any conflicts
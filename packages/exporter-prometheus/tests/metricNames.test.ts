@@ -0,0 +1,72 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import {
+  autometrics,
+  configure,
+  registerExporter,
+} from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+// Instrumented before the exporter is registered, so its instruments are
+// handed over from the temporary meter.
+const earlyFn = autometrics(function early() {});
+
+describe("Autometrics metric names tests", () => {
+  beforeAll(async () => {
+    configure({ specVersion: "legacy", namespace: "myapp" });
+
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("uses the configured spec version and namespace", async () => {
+    const lateFn = autometrics(function late() {});
+
+    earlyFn();
+    lateFn();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /^myapp_function_calls_count_total\{\S*function="early"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /^myapp_function_calls_count_total\{\S*function="late"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /^myapp_function_calls_duration_bucket\{\S*function="late"\S*le="0.005"\S*\} 1/gm,
+    );
+    expect(serialized).not.toMatch(/^function_calls/gm);
+  });
+
+  test("ignores an invalid namespace", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    configure({ namespace: "my-app" });
+    const invalidFn = autometrics(function invalidNamespace() {});
+    invalidFn();
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Ignoring the namespace "my-app"'),
+    );
+    warn.mockRestore();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /^myapp_function_calls_count_total\{\S*function="invalidNamespace"\S*\} 1/gm,
+    );
+  });
+});
@@ -3,7 +3,7 @@ import {
   PeriodicExportingMetricReader,
   InMemoryMetricExporter,
 } from "@opentelemetry/sdk-metrics";
-import { afterEach, beforeAll, describe, expect, test } from "vitest";
+import { afterEach, beforeAll, describe, expect, test, vi } from "vitest";
 import {
   autometrics,
   ObjectiveLatency,
@@ -95,4 +95,60 @@ describe("Autometrics objectives test", () => {
     expect(serialized).toMatch(callCountMetric);
     expect(serialized).toMatch(durationMetric);
   });
+
+  test("custom values", async () => {
+    const customFn = autometrics(
+      {
+        objective: {
+          name: "test",
+          successRate: 99.95,
+          latency: [
+            [ObjectiveLatency.Ms100, ObjectivePercentile.P95],
+            [0.5, 99],
+          ],
+        },
+      },
+      function custom() {},
+    );
+
+    customFn();
+
+    const callCountMetric =
+      /function_calls_total\{\S*function="custom"\S*objective_name="test",objective_percentile="99.95"\S*\} 1/gm;
+
+    // The duration is recorded once, without a latency target, as the targets
+    // are told apart by their bucket instead.
+    const durationMetric =
+      /function_calls_duration_count\{\S*function="custom"\S*objective_name="test",objective_latency_threshold="",objective_percentile=""\S*\} 1/gm;
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    expect(serialized).toMatch(callCountMetric);
+    expect(serialized).toMatch(durationMetric);
+    expect(
+      serialized.match(
+        /^function_calls_duration_count\{\S*function="custom"/gm,
+      ),
+    ).toHaveLength(1);
+  });
+
+  test("no latency targets", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const noLatencyFn = autometrics(
+      { objective: { name: "test", latency: [] } },
+      function noLatency() {},
+    );
+
+    noLatencyFn();
+
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+
+    const durationMetric =
+      /function_calls_duration_count\{\S*function="noLatency"\S*objective_name="test",objective_latency_threshold="",objective_percentile=""\S*\} 1/gm;
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(durationMetric);
+  });
 });
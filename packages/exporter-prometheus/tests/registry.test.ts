@@ -0,0 +1,129 @@
+import {
+  Autometrics,
+  InstrumentedFunction,
+  ObjectivePercentile,
+  autometrics,
+  getInstrumentedFunctions,
+} from "@autometrics/autometrics";
+import { beforeAll, describe, expect, test, vi } from "vitest";
+
+import { createExporterWithDebugEndpoint, init } from "../src";
+
+const PORT = 9467;
+
+const API_SLO = { name: "api", successRate: ObjectivePercentile.P99 };
+
+function findFunction(name: string): InstrumentedFunction | undefined {
+  return getInstrumentedFunctions().find((fn) => fn.name === name);
+}
+
+describe("Registry of instrumented functions", () => {
+  beforeAll(() => {
+    init({ port: PORT, debugEndpoint: "/debug/functions" });
+  });
+
+  test("lists instrumented functions with their options", () => {
+    autometrics(
+      { objective: API_SLO, trackConcurrency: true },
+      function getUser() {},
+    );
+
+    class UserController {
+      @Autometrics()
+      createUser() {}
+    }
+
+    expect(findFunction("getUser")).toEqual({
+      name: "getUser",
+      module: expect.stringContaining("registry.test.ts"),
+      objective: API_SLO,
+      trackConcurrency: true,
+      nameCollision: false,
+    });
+    expect(findFunction("createUser")).toMatchObject({
+      objective: undefined,
+      trackConcurrency: false,
+    });
+  });
+
+  test("detects name collisions", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    autometrics({ functionName: "colliding" }, () => "first");
+    autometrics({ functionName: "colliding" }, () => "second");
+
+    expect(findFunction("colliding")?.nameCollision).toBe(true);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Function colliding"),
+    );
+    expect(
+      getInstrumentedFunctions().filter((fn) => fn.name === "colliding"),
+    ).toHaveLength(1);
+  });
+
+  test("does not report instrumenting the same function again as a collision", () => {
+    for (let i = 0; i < 3; i++) {
+      autometrics({ functionName: "reinstrumented" }, () => i);
+    }
+
+    expect(findFunction("reinstrumented")?.nameCollision).toBe(false);
+  });
+
+  test("serves the registry from the debug endpoint", async () => {
+    autometrics(function listUsers() {});
+
+    const response = await fetch(`http://localhost:${PORT}/debug/functions`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+
+    const { functions } = await response.json();
+    expect(functions).toContainEqual(
+      expect.objectContaining({ name: "listUsers", nameCollision: false }),
+    );
+
+    const metrics = await fetch(`http://localhost:${PORT}/metrics`);
+    expect(await metrics.text()).toMatch(/function_calls_total{.*"listUsers"/);
+
+    const notFound = await fetch(`http://localhost:${PORT}/unknown`);
+    expect(notFound.status).toBe(404);
+  });
+
+  test("closes the debug endpoint when the exporter is shut down", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const port = PORT + 1;
+    const debugUrl = `http://localhost:${port}/debug/functions`;
+
+    const exporter = createExporterWithDebugEndpoint(port, "/debug/functions");
+    expect((await fetch(debugUrl)).status).toBe(200);
+
+    await exporter.shutdown();
+    await expect(fetch(debugUrl)).rejects.toThrow();
+
+    const nextExporter = createExporterWithDebugEndpoint(
+      port,
+      "/debug/functions",
+    );
+    expect((await fetch(debugUrl)).status).toBe(200);
+    expect(warn).not.toHaveBeenCalled();
+
+    await nextExporter.shutdown();
+    warn.mockRestore();
+  });
+
+  test("warns when a function is instrumented with a different objective", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const getOrders = () => {};
+
+    autometrics({ objective: API_SLO }, getOrders);
+    autometrics(
+      { objective: { ...API_SLO, successRate: ObjectivePercentile.P95 } },
+      getOrders,
+    );
+
+    expect(findFunction("getOrders")?.objective).toEqual(API_SLO);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("different objectives"),
+    );
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test } from "vitest";
+import {
+  configure,
+  recordBuildInfo,
+  registerExporter,
+} from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+describe("Autometrics resource tests", () => {
+  beforeAll(async () => {
+    process.env.OTEL_RESOURCE_ATTRIBUTES =
+      "service.name=from-env,deployment.environment=test";
+
+    configure({
+      serviceName: "checkout",
+      resource: { "service.version": "1.2.3" },
+    });
+
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("metrics are associated with the configured resource", async () => {
+    const { resourceMetrics } = await metricReader.collect();
+
+    expect(resourceMetrics.resource.attributes).toMatchObject({
+      "service.name": "checkout",
+      "service.version": "1.2.3",
+      "deployment.environment": "test",
+    });
+  });
+
+  test("build info includes the service name", async () => {
+    recordBuildInfo({ version: "1.2.3" });
+
+    const buildInfoMetric = /build_info{.*service_name="checkout"}/gm;
+
+    const serialized = await collectAndSerialize(metricReader);
+
+    expect(serialized).toMatch(buildInfoMetric);
+  });
+});
@@ -0,0 +1,192 @@
+import { Readable } from "node:stream";
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test } from "vitest";
+import { autometrics, registerExporter } from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+describe("Autometrics stream tests", () => {
+  beforeAll(async () => {
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("records web streams once they end", async () => {
+    const streamFn = autometrics(
+      { measureStreams: true, trackTimeToFirstChunk: true },
+      async function webStream() {
+        return new ReadableStream<string>({
+          start(controller) {
+            controller.enqueue("Hello");
+            controller.enqueue("world");
+            controller.close();
+          },
+        });
+      },
+    );
+
+    const stream = await streamFn();
+
+    const pendingSerialized = await collectAndSerialize(metricReader);
+    expect(pendingSerialized).not.toMatch(
+      /function_calls_total\{\S*function="webStream"\S*\} 1/gm,
+    );
+
+    const chunks: Array<string> = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(["Hello", "world"]);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="webStream"\S*result="ok"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_time_to_first_chunk_count\{\S*function="webStream"\S*\} 1/gm,
+    );
+  });
+
+  test("records response bodies once they have been read", async () => {
+    const responseFn = autometrics(
+      { measureStreams: true },
+      function response() {
+        return new Response("Hello world", { status: 201 });
+      },
+    );
+
+    const res = responseFn();
+    expect(res.status).toBe(201);
+    expect(await res.text()).toBe("Hello world");
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="response"\S*result="ok"\S*\} 1/gm,
+    );
+  });
+
+  test("records the time to first chunk with custom labels", async () => {
+    const streamFn = autometrics(
+      {
+        measureStreams: true,
+        trackTimeToFirstChunk: true,
+        labels: { tier: "free" },
+      },
+      function labelledStream() {
+        return Readable.from(["Hello"]);
+      },
+    );
+
+    for await (const _ of streamFn()) {
+    }
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_time_to_first_chunk_count\{\S*function="labelledStream"\S*tier="free"\S*\} 1/gm,
+    );
+  });
+
+  test("keeps the properties of responses", async () => {
+    const original = new Response("Hello world");
+    Object.defineProperty(original, "url", { value: "https://example.com/" });
+    Object.defineProperty(original, "redirected", { value: true });
+
+    const responseFn = autometrics(
+      { measureStreams: true },
+      function redirectedResponse() {
+        return original;
+      },
+    );
+
+    const res = responseFn();
+    expect(res).not.toBe(original);
+    expect(res.url).toBe("https://example.com/");
+    expect(res.redirected).toBe(true);
+    expect(res.type).toBe(original.type);
+    expect(await res.text()).toBe("Hello world");
+  });
+
+  test("records cancelled web streams as cancelled", async () => {
+    const streamFn = autometrics(
+      { measureStreams: true },
+      function cancelledStream() {
+        return new ReadableStream<string>({
+          pull(controller) {
+            controller.enqueue("Hello");
+          },
+        });
+      },
+    );
+
+    const reader = streamFn().getReader();
+    await reader.read();
+    await reader.cancel();
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="cancelledStream"\S*result="cancelled"\S*\} 1/gm,
+    );
+  });
+
+  test("records destroyed Node.js streams as cancelled", async () => {
+    const nodeStreamFn = autometrics(
+      { measureStreams: true },
+      function destroyedNodeStream() {
+        return Readable.from(["Hello", "world"]);
+      },
+    );
+
+    const stream = nodeStreamFn();
+    for await (const _ of stream) {
+      break;
+    }
+    await new Promise((resolve) => stream.once("close", resolve));
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="destroyedNodeStream"\S*result="cancelled"\S*\} 1/gm,
+    );
+  });
+
+  test("records errors in Node.js streams", async () => {
+    const nodeStreamFn = autometrics(
+      { measureStreams: true, trackTimeToFirstChunk: true },
+      function nodeStream() {
+        return Readable.from(
+          (function* () {
+            yield "Hello";
+            throw new Error("Oh no");
+          })(),
+        );
+      },
+    );
+
+    const consume = async () => {
+      for await (const _ of nodeStreamFn()) {
+      }
+    };
+
+    await expect(consume()).rejects.toThrowError("Oh no");
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="nodeStream"\S*result="error"\S*\} 1/gm,
+    );
+    expect(serialized).toMatch(
+      /function_calls_time_to_first_chunk_count\{\S*function="nodeStream"\S*\} 1/gm,
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import { afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import {
+  autometrics,
+  isInstrumented,
+  registerExporter,
+  unwrap,
+} from "@autometrics/autometrics";
+
+import { collectAndSerialize } from "./util";
+
+let metricReader: PeriodicExportingMetricReader;
+
+describe("Autometrics wrapper tests", () => {
+  beforeAll(async () => {
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: new InMemoryMetricExporter(AggregationTemporality.DELTA),
+    });
+
+    registerExporter({ metricReader });
+  });
+
+  afterEach(async () => {
+    await metricReader.forceFlush();
+  });
+
+  test("preserves name, length and static properties", () => {
+    function errorHandler(
+      _error: unknown,
+      _req: unknown,
+      _res: unknown,
+      _next: unknown,
+    ) {}
+    errorHandler.displayName = "Error handler";
+
+    const instrumented = autometrics(errorHandler);
+
+    expect(instrumented.name).toBe("errorHandler");
+    expect(instrumented.length).toBe(4);
+    expect(instrumented.displayName).toBe("Error handler");
+  });
+
+  test("preserves this", () => {
+    const counter = {
+      count: 1,
+      increment: autometrics(function increment(this: { count: number }) {
+        return ++this.count;
+      }),
+    };
+
+    expect(counter.increment()).toBe(2);
+  });
+
+  test("supports construction", async () => {
+    function Point(this: { x: number }, x: number) {
+      this.x = x;
+    }
+    Point.prototype.getX = function () {
+      return this.x;
+    };
+
+    const InstrumentedPoint = autometrics(Point);
+    // @ts-ignore: Constructor functions are not typed as constructable
+    const point = new InstrumentedPoint(3);
+
+    expect(point).toBeInstanceOf(Point);
+    expect(point).toBeInstanceOf(InstrumentedPoint);
+    expect(point.getX()).toBe(3);
+
+    const serialized = await collectAndSerialize(metricReader);
+    expect(serialized).toMatch(
+      /function_calls_total\{\S*function="Point"\S*result="ok"\S*\} 1/gm,
+    );
+  });
+
+  test("unwraps instrumented functions and refuses to wrap them twice", () => {
+    function original() {}
+
+    const instrumented = autometrics(original);
+
+    expect(isInstrumented(original)).toBe(false);
+    expect(isInstrumented(instrumented)).toBe(true);
+    expect(unwrap(instrumented)).toBe(original);
+    expect(unwrap(original)).toBe(original);
+    expect(autometrics(instrumented)).toBe(instrumented);
+  });
+
+  test("warns when wrapping with different options", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const instrumented = autometrics(
+      { trackConcurrency: true },
+      function rewrapped() {},
+    );
+
+    expect(autometrics({ trackConcurrency: true }, instrumented)).toBe(
+      instrumented,
+    );
+    expect(warn).not.toHaveBeenCalled();
+
+    expect(autometrics({ sampleRate: 0.5 }, instrumented)).toBe(instrumented);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("already instrumented with different options"),
+    );
+
+    warn.mockRestore();
+  });
+});
@@ -112,12 +112,51 @@ export function getNodeIdentifier(
       return declaration.initializer.arguments[0].escapedText.toString();
     }
   }
+  // Methods instrumented through the class decorator are named
+  // `ClassName.method`
+  if (nodeType === "method" && ts.isIdentifier(node)) {
+    const method = typechecker
+      .getSymbolAtLocation(node)
+      ?.declarations?.find((declaration) =>
+        ts.isMethodDeclaration(declaration),
+      );
+
+    if (
+      method &&
+      !hasAutometricsDecorator(method, ts) &&
+      ts.isClassLike(method.parent) &&
+      method.parent.name &&
+      hasAutometricsDecorator(method.parent, ts)
+    ) {
+      return `${method.parent.name.escapedText}.${node.escapedText}`;
+    }
+  }
+
   // otherwise just return the identifier user is currently hovering over
   if (ts.isIdentifier(node)) {
     return node.escapedText.toString();
   }
 }
 
+/**
+ * Gets the name of the file in which the function or method the node refers to
+ * is declared, following imports
+ * @param node The node itself
+ * @param typechecker The helper utility typechecker
+ */
+export function getNodeFileName(
+  node: Node,
+  typechecker: TypeChecker,
+  ts: Tsserver,
+): string | undefined {
+  let symbol = typechecker.getSymbolAtLocation(node);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = typechecker.getAliasedSymbol(symbol);
+  }
+
+  return symbol?.valueDeclaration?.getSourceFile().fileName;
+}
+
 /**
  * Gets the type of the node (we care only about functions or methods)
  * @param node The node itself
@@ -1,7 +1,9 @@
+import type { InterruptedResult } from "@autometrics/autometrics";
 import ts, { server } from "typescript/lib/tsserverlibrary";
 
 import {
   getNodeAtCursor,
+  getNodeFileName,
   getNodeIdentifier,
   getNodeType,
   isAutometricsWrappedOrDecorated,
@@ -10,6 +12,7 @@ import {
   createErrorRatioQuery,
   createLatencyQuery,
   createRequestRateQuery,
+  getMetricNames,
   makePrometheusUrl,
 } from "./queryHelpers";
 import { Tsserver } from "./types";
@@ -18,6 +21,8 @@ import { createLogger, getProxy } from "./utils";
 type Config = {
   prometheusUrl?: string;
   docsOutputFormat?: "prometheus" | "vscode";
+  errorRatioIncludes?: Array<InterruptedResult>;
+  namespace?: string;
 };
 
 function init(modules: { typescript: Tsserver }) {
@@ -92,28 +97,51 @@ function init(modules: { typescript: Tsserver }) {
       const prometheusBase = pluginConfig.prometheusUrl;
       log(prometheusBase ?? "<no Prometheus URL set>");
 
-      const requestRate = createRequestRateQuery("function", nodeIdentifier);
+      const metricNames = getMetricNames(pluginConfig);
+      const nodeFileName = getNodeFileName(nodeAtCursor, typechecker, ts);
+
+      const requestRate = createRequestRateQuery(
+        "function",
+        nodeIdentifier,
+        metricNames,
+        nodeFileName,
+      );
       const requestRateUrl = makePrometheusUrl(requestRate, prometheusBase);
 
       const calleeRequestRate = createRequestRateQuery(
-        "caller",
+        "caller_function",
         nodeIdentifier,
+        metricNames,
+        nodeFileName,
       );
       const calleeRequestRateUrl = makePrometheusUrl(
         calleeRequestRate,
         prometheusBase,
       );
 
-      const errorRatio = createErrorRatioQuery("function", nodeIdentifier);
+      const errorRatioIncludes = pluginConfig.errorRatioIncludes;
+      const errorRatio = createErrorRatioQuery(
+        "function",
+        nodeIdentifier,
+        errorRatioIncludes,
+        metricNames,
+        nodeFileName,
+      );
       const errorRatioUrl = makePrometheusUrl(errorRatio, prometheusBase);
 
-      const calleeErrorRatio = createErrorRatioQuery("caller", nodeIdentifier);
+      const calleeErrorRatio = createErrorRatioQuery(
+        "caller_function",
+        nodeIdentifier,
+        errorRatioIncludes,
+        metricNames,
+        nodeFileName,
+      );
       const calleeErrorRatioUrl = makePrometheusUrl(
         calleeErrorRatio,
         prometheusBase,
       );
 
-      const latency = createLatencyQuery(nodeIdentifier);
+      const latency = createLatencyQuery(nodeIdentifier, metricNames);
       const latencyUrl = makePrometheusUrl(latency, prometheusBase);
 
       const queries = <ts.SymbolDisplayPart[]>[
@@ -1,28 +1,129 @@
+import { InterruptedResult, getResultMatchers } from "@autometrics/autometrics";
+
 /* Functions below template creation of relevant queries and encode them in URL */
 
-type FunctionOrCaller = "function" | "caller";
+type FunctionOrCaller = "function" | "caller_function";
+
+const MODULE_LABELS: Record<FunctionOrCaller, string> = {
+  function: "module",
+  caller_function: "caller_module",
+};
+
+/**
+ * The names of the metrics as they are exported to Prometheus.
+ */
+export type MetricNames = {
+  /**
+   * A regular expression that matches the name of the call counter, which
+   * depends on the spec version and on how the metrics got to Prometheus (for
+   * example through OTLP or a collector).
+   */
+  counterPattern: string;
+  histogram: string;
+  buildInfo: string;
+};
+
+/**
+ * Returns the Prometheus names of the metrics, following the same `namespace`
+ * setting as `@autometrics/autometrics`.
+ */
+export function getMetricNames({
+  namespace,
+}: { namespace?: string } = {}): MetricNames {
+  const prefix = namespace ? `${namespace}_` : "";
+
+  return {
+    counterPattern: `${prefix}function_calls(_count)?(_total)?`,
+    histogram: `${prefix}function_calls_duration`,
+    buildInfo: `${prefix}build_info`,
+  };
+}
 
-const BUILD_INFO_LABELS =
-  "* on (instance, job) group_left(version, commit) last_over_time(build_info[1s])";
+const DEFAULT_METRIC_NAMES = getMetricNames();
 
-export function createLatencyQuery(nodeIdentifier: string) {
-  const latency = `sum by (le, function, module, commit, version) (rate(function_calls_duration_bucket{function="${nodeIdentifier}"}[5m]) ${BUILD_INFO_LABELS})`;
+/**
+ * Returns the label matchers for a function or caller. If the file that
+ * declares the function is known, the module label is matched as well, so
+ * functions with the same name in different modules are told apart.
+ *
+ * The module label holds the path of the file at runtime, which may have been
+ * compiled to another directory and extension, so only the name of the file
+ * is matched.
+ */
+function getFunctionMatchers(
+  functionOrCaller: FunctionOrCaller,
+  nodeIdentifier: string,
+  fileName?: string,
+) {
+  const functionMatcher = `${functionOrCaller}="${nodeIdentifier}"`;
+  const baseName = fileName?.split(/[\\/]/).pop()?.replace(/\.[^.]*$/, "");
+  if (!baseName) {
+    return functionMatcher;
+  }
+
+  // Escaped once for the regular expression, and once for the PromQL string
+  const escapedName = baseName.replace(/[.*+?^${}()|[\]\\]/g, "\\\\$&");
+  return `${functionMatcher},${MODULE_LABELS[functionOrCaller]}=~"(.*/)?${escapedName}\\\\.[cm]?[jt]sx?"`;
+}
+
+function getBuildInfoLabels(metricNames: MetricNames) {
+  return `* on (instance, job) group_left(version, commit) last_over_time(${metricNames.buildInfo}[1s])`;
+}
+
+export function createLatencyQuery(
+  nodeIdentifier: string,
+  metricNames = DEFAULT_METRIC_NAMES,
+) {
+  const latency = `sum by (le, function, module, commit, version) (rate(${
+    metricNames.histogram
+  }_bucket{function="${nodeIdentifier}"}[5m]) ${getBuildInfoLabels(
+    metricNames,
+  )})`;
   return `label_replace(histogram_quantile(0.99, ${latency}), "percentile_latency", "99", "","")\nor\nlabel_replace(histogram_quantile(0.95, ${latency}), "percentile_latency", "95", "", "")`;
 }
 
 export function createRequestRateQuery(
   functionOrCaller: FunctionOrCaller,
   nodeIdentifier: string,
+  metricNames = DEFAULT_METRIC_NAMES,
+  fileName?: string,
 ) {
-  return `sum by (function, module, commit, version) (rate({__name__=~"function_calls(_count)?(_total)?",${functionOrCaller}="${nodeIdentifier}"}[5m]) ${BUILD_INFO_LABELS})`;
+  return `sum by (function, module, commit, version) (rate({__name__=~"${
+    metricNames.counterPattern
+  }",${getFunctionMatchers(
+    functionOrCaller,
+    nodeIdentifier,
+    fileName,
+  )}}[5m]) ${getBuildInfoLabels(metricNames)})`;
 }
 
+/**
+ * Creates the query for the ratio of calls that resulted in an error.
+ *
+ * Interrupted calls (`result="cancelled"`, `result="timeout"` or
+ * `result="rejected"`) are left out of the ratio entirely, unless they are
+ * listed in `includedInterruptions`, in which case they are counted as errors.
+ */
 export function createErrorRatioQuery(
   functionOrCaller: FunctionOrCaller,
   nodeIdentifier: string,
+  includedInterruptions: Array<InterruptedResult> = [],
+  metricNames = DEFAULT_METRIC_NAMES,
+  fileName?: string,
 ) {
-  const requestQuery = createRequestRateQuery(functionOrCaller, nodeIdentifier);
-  return `(sum by (function, module, commit, version) (rate({__name__=~"function_calls(_count)?(_total)?",${functionOrCaller}="${nodeIdentifier}",result="error"}[5m]) ${BUILD_INFO_LABELS}))\n/\n(${requestQuery})`;
+  const resultMatchers = getResultMatchers({
+    errorRatioIncludes: includedInterruptions,
+  });
+  const resultFilter = resultMatchers.total ? `,${resultMatchers.total}` : "";
+
+  const matchers = getFunctionMatchers(
+    functionOrCaller,
+    nodeIdentifier,
+    fileName,
+  );
+  const buildInfoLabels = getBuildInfoLabels(metricNames);
+  const requestQuery = `sum by (function, module, commit, version) (rate({__name__=~"${metricNames.counterPattern}",${matchers}${resultFilter}}[5m]) ${buildInfoLabels})`;
+  return `(sum by (function, module, commit, version) (rate({__name__=~"${metricNames.counterPattern}",${matchers},${resultMatchers.errors}}[5m]) ${buildInfoLabels}))\n/\n(${requestQuery})`;
 }
 
 const DEFAULT_URL = "http://localhost:9090/";